@@ -1,3 +1,14 @@
+import type {
+  StoreConfig,
+  TagVocabulary,
+  ItemTranslations,
+  CategoryTranslations,
+  Money,
+  PriceValue,
+  BrandCatalog,
+  CatalogOverrideField,
+  ValidationIssue
+} from '@lookbook/menu-schema'
 import { useAuth } from './auth'
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api'
@@ -6,6 +17,33 @@ interface ApiError {
   error: string
 }
 
+/**
+ * Error thrown for non-2xx responses, carrying status and response body
+ */
+export class RequestError extends Error {
+  constructor(message: string, public status: number, public data: unknown) {
+    super(message)
+    this.name = 'RequestError'
+  }
+}
+
+/**
+ * Body of a 409 response from a stale menu write
+ */
+export interface VersionConflict {
+  error: string
+  currentVersionId: string | null
+}
+
+// Manifest version ids travel as quoted ETags
+function ifMatchHeader(baseVersion?: string | null): Record<string, string> {
+  return baseVersion ? { 'If-Match': `"${baseVersion}"` } : {}
+}
+
+function parseETag(etag: string | null): string | null {
+  return etag ? etag.replace(/^W\//, '').replace(/^"|"$/g, '') : null
+}
+
 async function request<T>(
   endpoint: string,
   options: RequestInit = {}
@@ -30,7 +68,7 @@ async function request<T>(
   const data = await response.json()
 
   if (!response.ok) {
-    throw new Error((data as ApiError).error || 'Request failed')
+    throw new RequestError((data as ApiError).error || 'Request failed', response.status, data)
   }
 
   return data as T
@@ -51,46 +89,128 @@ export interface BrandsResponse {
 export interface BrandRegistry {
   brand: { slug: string; name: string }
   defaultStore: string
+  locales?: string[] // default locale first
   stores: { slug: string; name: string; file: string }[]
   paths: { images: string; placeholder: string }
 }
 
-export interface StoreConfig {
-  slug: string
+// Store config (menus, timezone, currency, locale, availability) is defined by the shared schema
+export type { StoreConfig }
+
+export interface ModifierOption {
+  id: string
+  name: string
+  priceDelta: Money | number // legacy numbers are major units
+}
+
+export interface ModifierGroup {
+  id: string
   name: string
-  menus: { id: string; label: string; file: string; categoryOrder?: string[] }[]
+  minSelections: number
+  maxSelections: number
+  required: boolean
+  options: ModifierOption[]
+}
+
+export interface ItemVariant {
+  id: string
+  label: string // e.g. "Small", "Glass"
+  price: PriceValue
+  image?: string
 }
 
 export interface MenuItem {
   id: string
   name: string
   category: string
-  price?: number | string
+  price?: PriceValue // Money; legacy number/string until migrated
   description?: string
   image?: string
   gif?: string
   storeImage?: string
   expectedImage?: string
+  variants?: ItemVariant[]
+  modifierGroups?: ModifierGroup[]
+  dietary?: string[]
+  allergens?: string[]
+  spiceLevel?: number
+  soldOut?: boolean
+  soldOutUntil?: string
+  translations?: ItemTranslations
+  catalogId?: string // linked brand catalog item
+  overrides?: CatalogOverrideField[] // catalog fields set by this store
+  available?: boolean // false: not offered at this store
 }
 
 export interface MenuData {
-  meta?: { categoryOrder?: string[] }
+  meta?: { categoryOrder?: string[]; categoryTranslations?: CategoryTranslations; locale?: string }
   items: MenuItem[]
 }
 
 export interface VersionEntry {
   id: string
-  type: 'edit' | 'upload'
+  type: 'edit' | 'upload' | 'restore' | 'patch' | 'scheduled' | 'publish' | 'clone'
   timestamp: string
   keyId: string
   itemCount: number
+  sourceVersionId?: string
+  changedItemIds?: string[]
+  scheduledId?: string
+  clonedFrom?: string // "{brand}/{store}/{menu}"
+}
+
+export interface ScheduledPublish {
+  id: string
+  publishAt: string
+  createdAt: string
+  keyId: string
+  keyLabel?: string
+  itemCount: number
+}
+
+export interface MenuDraft {
+  data: MenuData
+  baseVersionId: string | null
+  updatedAt: string
+  keyId: string
+  keyLabel?: string
+}
+
+export interface DraftPreview {
+  brand: string
+  store: string
+  menu: string
+  updatedAt: string
+  expiresAt: string
+  data: MenuData
 }
 
 export interface VersionManifest {
   current: string | null
   versions: VersionEntry[]
+  scheduled?: ScheduledPublish[]
+}
+
+export type DiffField = 'name' | 'price' | 'description' | 'category' | 'image' | 'variants' | 'modifierGroups'
+
+export interface FieldChange {
+  field: DiffField
+  before: string | number | ItemVariant[] | ModifierGroup[] | null
+  after: string | number | ItemVariant[] | ModifierGroup[] | null
 }
 
+export interface VersionDiff {
+  from: string
+  to: string
+  added: MenuItem[]
+  removed: MenuItem[]
+  changed: { id: string; name: string; changes: FieldChange[]; otherFields?: string[] }[]
+  categoryOrder: { before: string[]; after: string[] } | null
+}
+
+// Diff of an upload preview against the live menu
+export type MenuDiff = Omit<VersionDiff, 'from' | 'to'>
+
 // API functions
 
 export async function healthCheck() {
@@ -127,27 +247,112 @@ export async function getBrandRegistry(brand: string) {
   return request<BrandRegistry>(`/brands/${brand}`)
 }
 
+export async function getTagVocabulary(brand: string) {
+  return request<TagVocabulary>(`/brands/${brand}/tags`)
+}
+
+/**
+ * Brand master catalog; { items: [] } when the brand has none
+ */
+export async function getCatalog(brand: string) {
+  return request<BrandCatalog<MenuItem>>(`/brands/${brand}/catalog`)
+}
+
+export async function saveCatalog(brand: string, catalog: BrandCatalog<MenuItem>) {
+  return request<{
+    success: boolean
+    catalog: BrandCatalog<MenuItem>
+    republished: number // live menus rewritten with the new catalog values
+    republishFailed: number
+  }>(`/brands/${brand}/catalog`, {
+    method: 'PUT',
+    body: JSON.stringify(catalog)
+  })
+}
+
 export async function getStoreConfig(brand: string, store: string) {
   return request<StoreConfig>(`/stores/${brand}/${store}`)
 }
 
+export async function saveStoreConfig(brand: string, store: string, config: StoreConfig) {
+  return request<{ success: boolean; config: StoreConfig }>(`/stores/${brand}/${store}`, {
+    method: 'PUT',
+    body: JSON.stringify(config)
+  })
+}
+
 export async function getMenu(brand: string, store: string, menu: string) {
   return request<MenuData>(`/menus/${brand}/${store}/${menu}`)
 }
 
-export async function saveMenu(brand: string, store: string, menu: string, data: MenuData) {
+/**
+ * Fetch a menu along with its current version (from the ETag header)
+ */
+export async function getMenuWithVersion(brand: string, store: string, menu: string) {
+  const { getApiKey } = useAuth()
+  const apiKey = getApiKey()
+
+  const response = await fetch(`${API_BASE}/menus/${brand}/${store}/${menu}`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new RequestError((data as ApiError).error || 'Request failed', response.status, data)
+  }
+
+  return { menu: data as MenuData, version: parseETag(response.headers.get('ETag')) }
+}
+
+export async function saveMenu(
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  baseVersion?: string | null
+) {
   return request<{ success: boolean; versionId: string; liveUrl: string }>(
     `/menus/${brand}/${store}/${menu}`,
     {
       method: 'PUT',
+      headers: ifMatchHeader(baseVersion),
       body: JSON.stringify(data)
     }
   )
 }
 
-export async function uploadMenu(brand: string, store: string, menu: string, data: MenuData) {
-  return request<{ success: boolean; versionId: string; liveUrl: string }>(
+export interface ReconciliationReport {
+  matched: { id: string; name: string; matchedBy: 'id' | 'name'; incomingId?: string }[]
+  renamed: { id: string; before: string; after: string }[]
+  new: { id: string; name: string; incomingId?: string }[]
+  dropped: { id: string; name: string }[]
+}
+
+export async function uploadMenu(
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  baseVersion?: string | null
+) {
+  return request<{ success: boolean; versionId: string; liveUrl: string; reconciliation: ReconciliationReport }>(
     `/menus/${brand}/${store}/${menu}/upload`,
+    {
+      method: 'POST',
+      headers: ifMatchHeader(baseVersion),
+      body: JSON.stringify(data)
+    }
+  )
+}
+
+/**
+ * Dry-run an upload: returns the menu with reconciled item ids and a report,
+ * without writing anything. Upload the returned menu to confirm.
+ */
+export async function previewUpload(brand: string, store: string, menu: string, data: unknown) {
+  return request<{ dryRun: true; menu: MenuData; reconciliation: ReconciliationReport; diff: MenuDiff }>(
+    `/menus/${brand}/${store}/${menu}/upload?dryRun=true`,
     {
       method: 'POST',
       body: JSON.stringify(data)
@@ -155,10 +360,294 @@ export async function uploadMenu(brand: string, store: string, menu: string, dat
   )
 }
 
+export type MenuItemOperation =
+  | { op: 'upsertItem'; item: Partial<MenuItem> & { id: string }; index?: number }
+  | { op: 'deleteItem'; id: string }
+  | { op: 'moveItem'; id: string; index: number; category?: string }
+  | { op: 'setCategoryOrder'; categoryOrder: string[] }
+
+export async function patchMenu(
+  brand: string,
+  store: string,
+  menu: string,
+  operations: MenuItemOperation[],
+  baseVersion?: string | null
+) {
+  return request<{ success: boolean; versionId: string; changedItemIds: string[]; liveUrl: string }>(
+    `/menus/${brand}/${store}/${menu}`,
+    {
+      method: 'PATCH',
+      headers: ifMatchHeader(baseVersion),
+      body: JSON.stringify({ operations })
+    }
+  )
+}
+
+/**
+ * Mark an item sold out (optionally until an ISO time) or available again
+ * Updates the live menu directly; no version is created.
+ */
+export async function setItemSoldOut(
+  brand: string,
+  store: string,
+  menu: string,
+  itemId: string,
+  soldOut: boolean,
+  until?: string
+) {
+  return request<{ success: boolean; itemId: string; soldOut: boolean; soldOutUntil: string | null }>(
+    `/menus/${brand}/${store}/${menu}/items/${encodeURIComponent(itemId)}/sold-out`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ soldOut, until })
+    }
+  )
+}
+
+export async function getDraft(brand: string, store: string, menu: string) {
+  const { draft } = await request<{ draft: MenuDraft | null }>(`/drafts/${brand}/${store}/${menu}`)
+  return draft
+}
+
+export async function saveDraft(
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  baseVersion?: string | null
+) {
+  return request<{ success: boolean; baseVersionId: string | null; updatedAt: string }>(
+    `/drafts/${brand}/${store}/${menu}`,
+    {
+      method: 'PUT',
+      headers: ifMatchHeader(baseVersion),
+      body: JSON.stringify(data)
+    }
+  )
+}
+
+export async function discardDraft(brand: string, store: string, menu: string) {
+  return request<{ success: boolean }>(`/drafts/${brand}/${store}/${menu}`, { method: 'DELETE' })
+}
+
+export async function publishDraft(brand: string, store: string, menu: string, baseVersion?: string | null) {
+  return request<{ success: boolean; versionId: string; liveUrl: string }>(
+    `/drafts/${brand}/${store}/${menu}/publish`,
+    {
+      method: 'POST',
+      headers: ifMatchHeader(baseVersion)
+    }
+  )
+}
+
+/**
+ * Create a signed, expiring link to the admin preview page for a draft
+ */
+export async function createPreviewLink(brand: string, store: string, menu: string, expiresIn?: number) {
+  const result = await request<{ expires: number; expiresAt: string; signature: string }>(
+    `/drafts/${brand}/${store}/${menu}/preview`,
+    {
+      method: 'POST',
+      body: JSON.stringify(expiresIn ? { expiresIn } : {})
+    }
+  )
+  const params = new URLSearchParams({ expires: String(result.expires), sig: result.signature })
+  return {
+    url: `${window.location.origin}/preview/${brand}/${store}/${menu}?${params}`,
+    expiresAt: result.expiresAt
+  }
+}
+
+export async function getDraftPreview(brand: string, store: string, menu: string, expires: string, sig: string) {
+  const params = new URLSearchParams({ expires, sig })
+  return request<DraftPreview>(`/preview/${brand}/${store}/${menu}?${params}`)
+}
+
+export async function scheduleMenu(
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  publishAt: string
+) {
+  return request<{ success: boolean; scheduled: ScheduledPublish }>(
+    `/menus/${brand}/${store}/${menu}/schedule`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ publishAt, menu: data })
+    }
+  )
+}
+
+export interface MenuRef {
+  brand: string
+  store: string
+  menu: string
+}
+
+export interface CloneRequest {
+  source: MenuRef
+  mode: 'replace' | 'merge' // merge keeps target items, replacing those with colliding ids
+  categories?: string[] // default: all
+  copyImages?: boolean // cross-brand only
+}
+
+export interface CloneImages {
+  copied: string[]
+  existing: string[]
+  missing: string[]
+}
+
+export interface ClonePreview {
+  dryRun: true
+  categories: string[]
+  clonedItemIds: string[]
+  itemCount: number
+  collisions: Array<{ id: string; sourceName: string; targetName: string }>
+  images: CloneImages | null
+  uncopiedImages: string[] // cross-brand images left behind without copyImages
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+/**
+ * Preview copying another menu into brand/store/menu (nothing is written)
+ */
+export async function previewCloneMenu(brand: string, store: string, menu: string, params: CloneRequest) {
+  return request<ClonePreview>(`/menus/${brand}/${store}/${menu}/clone`, {
+    method: 'POST',
+    body: JSON.stringify({ ...params, dryRun: true })
+  })
+}
+
+export async function cloneMenu(
+  brand: string,
+  store: string,
+  menu: string,
+  params: CloneRequest,
+  baseVersion?: string | null
+) {
+  return request<{
+    success: boolean
+    versionId: string
+    liveUrl: string
+    clonedFrom: string
+    clonedItemIds: string[]
+    images: CloneImages | null
+  }>(`/menus/${brand}/${store}/${menu}/clone`, {
+    method: 'POST',
+    headers: ifMatchHeader(baseVersion),
+    body: JSON.stringify(params)
+  })
+}
+
+export async function cancelScheduledPublish(brand: string, store: string, menu: string, id: string) {
+  return request<{ success: boolean; cancelled: string }>(
+    `/menus/${brand}/${store}/${menu}/scheduled/${id}`,
+    { method: 'DELETE' }
+  )
+}
+
 export async function getVersions(brand: string, store: string, menu: string) {
   return request<VersionManifest>(`/versions/${brand}/${store}/${menu}`)
 }
 
+export async function getVersionSnapshot(brand: string, store: string, menu: string, versionId: string) {
+  return request<MenuData>(`/versions/${brand}/${store}/${menu}/${versionId}`)
+}
+
+export type PdfTemplate = 'one-page' | 'multi-page'
+
+export interface PdfOptions {
+  template: PdfTemplate
+  photos: boolean
+  size: 'letter' | 'a4'
+  version?: string // snapshot to print instead of the live menu
+  lang?: string
+}
+
+// GET a binary response (PDFs, images) as a Blob
+async function fetchBlob(endpoint: string): Promise<Blob> {
+  const { getApiKey } = useAuth()
+  const apiKey = getApiKey()
+
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new RequestError((data as ApiError).error || 'Request failed', response.status, data)
+  }
+
+  return response.blob()
+}
+
+/**
+ * Render a printable PDF of the menu (see the API's lib/print.ts)
+ */
+export async function downloadMenuPdf(brand: string, store: string, menu: string, options: PdfOptions): Promise<Blob> {
+  const params = new URLSearchParams({ template: options.template, photos: String(options.photos), size: options.size })
+  if (options.version) params.set('version', options.version)
+  if (options.lang) params.set('lang', options.lang)
+  return fetchBlob(`/menus/${brand}/${store}/${menu}/pdf?${params}`)
+}
+
+export type QrFormat = 'svg' | 'png'
+
+export interface QrOptions {
+  logo: boolean // brand logo in the center
+  placement?: string // table or placement, sent as utm_content
+}
+
+function qrParams(options: QrOptions): URLSearchParams {
+  const params = new URLSearchParams({ logo: String(options.logo) })
+  if (options.placement) params.set('placement', options.placement)
+  return params
+}
+
+/**
+ * URL of a menu's QR code (public, usable as an image source)
+ */
+export function qrCodeUrl(brand: string, store: string, menu: string, format: QrFormat, options: QrOptions): string {
+  const params = qrParams(options)
+  params.set('format', format)
+  return `${API_BASE}/menus/${brand}/${store}/${menu}/qr?${params}`
+}
+
+export async function downloadQrCode(brand: string, store: string, menu: string, format: QrFormat, options: QrOptions): Promise<Blob> {
+  const params = qrParams(options)
+  params.set('format', format)
+  params.set('download', 'true')
+  return fetchBlob(`/menus/${brand}/${store}/${menu}/qr?${params}`)
+}
+
+/**
+ * Printable PDF with QR codes for every menu of a store, one per placement
+ */
+export async function downloadQrSheet(
+  brand: string,
+  store: string,
+  options: { logo: boolean; placements: string[]; size: 'letter' | 'a4' }
+): Promise<Blob> {
+  const params = new URLSearchParams({ logo: String(options.logo), size: options.size })
+  if (options.placements.length > 0) params.set('placements', options.placements.join(','))
+  return fetchBlob(`/stores/${brand}/${store}/qr-sheet?${params}`)
+}
+
+export async function getVersionDiff(brand: string, store: string, menu: string, from: string, to: string) {
+  const params = new URLSearchParams({ from, to })
+  return request<VersionDiff>(`/versions/${brand}/${store}/${menu}/diff?${params}`)
+}
+
+export async function restoreVersion(brand: string, store: string, menu: string, versionId: string) {
+  return request<{ success: boolean; versionId: string; restoredFrom: string; liveUrl: string }>(
+    `/versions/${brand}/${store}/${menu}/${versionId}/restore`,
+    { method: 'POST' }
+  )
+}
+
 export async function uploadImage(brand: string, file: File, filename?: string) {
   const { getApiKey } = useAuth()
   const apiKey = getApiKey()
@@ -184,11 +673,62 @@ export async function uploadImage(brand: string, file: File, filename?: string)
   return data as { success: boolean; filename: string; url: string; size: number }
 }
 
+export interface ImageReference {
+  source: 'live' | 'draft' | 'scheduled' | 'catalog' | 'logo'
+  store?: string
+  menu?: string
+  scheduleId?: string
+  itemId?: string
+  itemName?: string
+  variantId?: string // set when the variant's own image is used
+  field?: 'image' | 'gif' | 'storeImage' | 'expectedImage' // field holding the file name
+}
+
+export interface BrandImage {
+  file: string
+  url: string
+  size: number
+  contentType: string
+  uploadedAt: string
+  references: ImageReference[]
+}
+
+export async function listImages(
+  brand: string,
+  options: { cursor?: string; limit?: number; unused?: boolean; query?: string } = {}
+) {
+  const params = new URLSearchParams()
+  if (options.cursor) params.set('cursor', options.cursor)
+  if (options.limit) params.set('limit', String(options.limit))
+  if (options.unused) params.set('unused', 'true')
+  if (options.query) params.set('q', options.query)
+  return request<{ images: BrandImage[]; cursor: string | null }>(`/images/${brand}?${params}`)
+}
+
+export async function getImage(brand: string, file: string) {
+  return request<{ image: Omit<BrandImage, 'references'>; references: ImageReference[] }>(
+    `/images/${brand}/${encodeURIComponent(file)}`
+  )
+}
+
+/**
+ * Delete an image. Fails with 409 (references in RequestError.data) while
+ * it is in use, unless forced.
+ */
+export async function deleteImage(brand: string, file: string, force = false) {
+  return request<{ success: boolean; file: string; references: ImageReference[] }>(
+    `/images/${brand}/${encodeURIComponent(file)}${force ? '?force=true' : ''}`,
+    { method: 'DELETE' }
+  )
+}
+
 export interface DeployBrandRequest {
   brandSlug: string
   brandName: string
   locationSlug: string
   locationName: string
+  currency?: string // store price currency, defaults to USD
+  locale?: string // store price locale, defaults to en-US
   logoFile?: File | null
 }
 
@@ -196,6 +736,9 @@ export interface DeployLocationRequest {
   brandSlug: string
   locationSlug: string
   locationName: string
+  currency?: string
+  locale?: string
+  cloneFrom?: { store: string; menu: string } // start from a copy of this menu
 }
 
 export async function deployLocation(params: DeployLocationRequest) {
@@ -229,6 +772,12 @@ export async function deployBrand(params: DeployBrandRequest) {
   formData.append('brandName', params.brandName)
   formData.append('locationSlug', params.locationSlug)
   formData.append('locationName', params.locationName)
+  if (params.currency) {
+    formData.append('currency', params.currency)
+  }
+  if (params.locale) {
+    formData.append('locale', params.locale)
+  }
   if (params.logoFile) {
     formData.append('logo', params.logoFile)
   }
@@ -0,0 +1,296 @@
+/**
+ * Menu CSV import/export
+ *
+ * One row per item. Tags (dietary, allergens) are separated by ";" within a
+ * cell. Prices are major units in the store currency ("12.50").
+ *
+ * Import only sets the mapped columns: rows matching an existing item (by id,
+ * then by name + category) keep that item's other fields (variants,
+ * modifiers, translations, ...). The upload route reconciles ids again
+ * server-side.
+ */
+
+import { moneyInputValue, parseMoneyInput, toMoney, type ValidationIssue } from '@lookbook/menu-schema'
+import type { MenuData, MenuItem } from './api'
+import type { MoneyFormat } from './money'
+
+export const CSV_FIELDS = [
+  'id',
+  'category',
+  'name',
+  'price',
+  'description',
+  'image',
+  'dietary',
+  'allergens',
+  'spiceLevel'
+] as const
+
+export type CsvField = typeof CSV_FIELDS[number]
+
+// Column index per field; fields without a column are left unchanged
+export type CsvMapping = Partial<Record<CsvField, number>>
+
+export interface CsvRecord {
+  line: number // 1-based line the record starts on
+  cells: string[]
+}
+
+export interface CsvIssue {
+  line: number
+  message: string
+}
+
+// Header names recognized for each field (compared lowercase, without spaces/punctuation)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  id: ['id', 'itemid', 'sku'],
+  category: ['category', 'section', 'group'],
+  name: ['name', 'item', 'itemname', 'title', 'dish'],
+  price: ['price', 'cost', 'amount'],
+  description: ['description', 'desc', 'details'],
+  image: ['image', 'photo', 'imagefile', 'picture'],
+  dietary: ['dietary', 'tags', 'diet', 'dietarytags'],
+  allergens: ['allergens', 'allergen', 'allergies'],
+  spiceLevel: ['spicelevel', 'spice', 'heat']
+}
+
+const TAG_SEPARATOR = /[;|]/
+
+/**
+ * Parse CSV text (RFC 4180: quoted cells may contain commas, quotes and newlines)
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const input = text.replace(/^﻿/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      cells.push(cell)
+      records.push({ line: recordLine, cells })
+      cells = []
+      cell = ''
+      line++
+      recordLine = line
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell)
+    records.push({ line: recordLine, cells })
+  }
+
+  // Blank lines are not records
+  return records.filter(record => record.cells.some(value => value.trim() !== ''))
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function fieldValue(item: MenuItem, field: CsvField, money: MoneyFormat): string {
+  switch (field) {
+    case 'price':
+      return moneyInputValue(toMoney(item.price, money.currency) ?? undefined)
+    case 'dietary':
+    case 'allergens':
+      return (item[field] || []).join('; ')
+    case 'spiceLevel':
+      return item.spiceLevel === undefined ? '' : String(item.spiceLevel)
+    default:
+      return item[field] || ''
+  }
+}
+
+/**
+ * One row per item, in category order, with a header row of CSV_FIELDS
+ */
+export function menuToCsv(menu: MenuData, money: MoneyFormat): string {
+  const order = menu.meta?.categoryOrder || []
+  const rank = (category: string) => {
+    const index = order.indexOf(category)
+    return index === -1 ? order.length : index
+  }
+  const items = [...menu.items].sort((a, b) => rank(a.category) - rank(b.category))
+
+  return toCsv([
+    [...CSV_FIELDS],
+    ...items.map(item => CSV_FIELDS.map(field => fieldValue(item, field, money)))
+  ])
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Guess which column holds each field from the header row
+ */
+export function guessMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {}
+  const normalized = headers.map(normalizeHeader)
+  for (const field of CSV_FIELDS) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header))
+    if (index !== -1) mapping[field] = index
+  }
+  return mapping
+}
+
+function matchKey(name: string, category: string): string {
+  // Same normalization as the API's reconcile: case, accents and punctuation are ignored
+  const normalize = (value: string) =>
+    value.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  return `${normalize(name)}|${normalize(category)}`
+}
+
+function splitTags(value: string): string[] {
+  return value.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean)
+}
+
+/**
+ * Build a menu from data rows (header excluded). Rows with errors are skipped
+ * and reported by line; `lines[i]` is the line of `menu.items[i]`.
+ */
+export function csvToMenu(
+  records: CsvRecord[],
+  mapping: CsvMapping,
+  existing: MenuData | null,
+  money: MoneyFormat
+): { menu: MenuData; lines: number[]; errors: CsvIssue[] } {
+  const errors: CsvIssue[] = []
+  const items: MenuItem[] = []
+  const lines: number[] = []
+
+  const existingById = new Map((existing?.items || []).map(item => [item.id, item]))
+  const existingByKey = new Map((existing?.items || []).map(item => [matchKey(item.name, item.category), item]))
+  const cell = (record: CsvRecord, field: CsvField): string | undefined => {
+    const index = mapping[field]
+    return index === undefined ? undefined : (record.cells[index] ?? '').trim()
+  }
+
+  for (const record of records) {
+    const rowErrors: string[] = []
+    const id = cell(record, 'id')
+    const name = cell(record, 'name')
+    const category = cell(record, 'category')
+
+    const base = (id && existingById.get(id))
+      || (name && category !== undefined && existingByKey.get(matchKey(name, category)))
+      || undefined
+    const item: MenuItem = base
+      ? JSON.parse(JSON.stringify(base))
+      : { id: id || '', name: '', category: '' }
+
+    if (id) item.id = id
+    if (name !== undefined) item.name = name
+    if (category !== undefined) item.category = category
+    if (!item.name) rowErrors.push('name is required')
+    if (!item.category) rowErrors.push('category is required')
+
+    const price = cell(record, 'price')
+    if (price !== undefined) {
+      if (price === '') {
+        delete item.price
+      } else {
+        const parsed = parseMoneyInput(price, money.currency)
+        if (parsed) item.price = parsed
+        else rowErrors.push(`price "${price}" is not a valid amount`)
+      }
+    }
+
+    const description = cell(record, 'description')
+    if (description !== undefined) item.description = description || undefined
+
+    const image = cell(record, 'image')
+    if (image !== undefined) item.image = image || undefined
+
+    const dietary = cell(record, 'dietary')
+    if (dietary !== undefined) {
+      const tags = splitTags(dietary)
+      item.dietary = tags.length > 0 ? tags : undefined
+    }
+
+    // An empty allergens cell leaves allergens undeclared; "none" declares none
+    const allergens = cell(record, 'allergens')
+    if (allergens !== undefined) {
+      item.allergens = allergens === ''
+        ? undefined
+        : allergens.toLowerCase() === 'none' ? [] : splitTags(allergens)
+    }
+
+    const spiceLevel = cell(record, 'spiceLevel')
+    if (spiceLevel !== undefined) {
+      if (spiceLevel === '') {
+        delete item.spiceLevel
+      } else if (/^\d+$/.test(spiceLevel)) {
+        item.spiceLevel = Number(spiceLevel)
+      } else {
+        rowErrors.push(`spice level "${spiceLevel}" must be a whole number`)
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map(message => ({ line: record.line, message })))
+      continue
+    }
+
+    items.push(item)
+    lines.push(record.line)
+  }
+
+  // Keep the existing category order, appending new categories as they appear
+  const categories = new Set(items.map(item => item.category))
+  const categoryOrder = [
+    ...(existing?.meta?.categoryOrder || []).filter(category => categories.has(category)),
+    ...categories
+  ]
+
+  return {
+    menu: {
+      ...existing,
+      meta: { ...existing?.meta, categoryOrder: [...new Set(categoryOrder)] },
+      items
+    },
+    lines,
+    errors
+  }
+}
+
+/**
+ * Line of the row a schema issue refers to ("/items/3/price" -> lines[3])
+ */
+export function issueLine(issue: ValidationIssue, lines: number[]): number | null {
+  const match = issue.path.match(/^\/items\/(\d+)/)
+  return match ? lines[Number(match[1])] ?? null : null
+}
@@ -0,0 +1,77 @@
+import type { MenuData, MenuItem } from './api'
+
+export interface MergeResult {
+  merged: MenuData
+  // Items changed by us (kept from local)
+  ours: string[]
+  // Items changed on the server (taken from server)
+  theirs: string[]
+  // Items changed on both sides (local version kept)
+  conflicts: string[]
+}
+
+function sameItem(a: MenuItem | undefined, b: MenuItem | undefined): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Three-way merge of menu edits
+ * base: the menu as it was loaded, mine: local edits, theirs: current server menu
+ *
+ * Items are matched by id. Changes on only one side win; when both sides
+ * changed the same item, the local version is kept and reported as a conflict.
+ */
+export function mergeMenus(base: MenuData, mine: MenuData, theirs: MenuData): MergeResult {
+  const baseById = new Map(base.items.map(i => [i.id, i]))
+  const mineById = new Map(mine.items.map(i => [i.id, i]))
+  const theirsById = new Map(theirs.items.map(i => [i.id, i]))
+
+  const ours: string[] = []
+  const theirChanges: string[] = []
+  const conflicts: string[] = []
+
+  // Server order first, then items only we added
+  const ids = [...theirs.items.map(i => i.id)]
+  for (const item of mine.items) {
+    if (!theirsById.has(item.id)) ids.push(item.id)
+  }
+
+  const items: MenuItem[] = []
+
+  for (const id of new Set(ids)) {
+    const baseItem = baseById.get(id)
+    const mineItem = mineById.get(id)
+    const theirItem = theirsById.get(id)
+
+    const mineChanged = !sameItem(baseItem, mineItem)
+    const theirsChanged = !sameItem(baseItem, theirItem)
+
+    let result: MenuItem | undefined
+    if (mineChanged && theirsChanged && !sameItem(mineItem, theirItem)) {
+      conflicts.push(id)
+      result = mineItem
+    } else if (mineChanged) {
+      ours.push(id)
+      result = mineItem
+    } else {
+      if (theirsChanged) theirChanges.push(id)
+      result = theirItem
+    }
+
+    // An undefined result means the item was deleted on the winning side
+    if (result) items.push(result)
+  }
+
+  const baseOrder = JSON.stringify(base.meta?.categoryOrder ?? null)
+  const mineOrderChanged = JSON.stringify(mine.meta?.categoryOrder ?? null) !== baseOrder
+  const meta = mineOrderChanged
+    ? { ...theirs.meta, categoryOrder: mine.meta?.categoryOrder }
+    : theirs.meta
+
+  return {
+    merged: { ...theirs, meta, items },
+    ours,
+    theirs: theirChanges,
+    conflicts
+  }
+}
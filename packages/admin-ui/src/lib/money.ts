@@ -0,0 +1,65 @@
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_MONEY_LOCALE,
+  formatMoney,
+  moneyInputValue,
+  parseMoneyInput,
+  toMoney,
+  type PriceValue,
+  type StoreConfig
+} from '@lookbook/menu-schema'
+
+/**
+ * How a store's prices are entered and shown
+ */
+export interface MoneyFormat {
+  currency: string // ISO 4217, new prices are created in it
+  locale: string // BCP 47, for display
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_MONEY_LOCALE
+}
+
+export function moneyFormatFor(config: StoreConfig | null | undefined): MoneyFormat {
+  return {
+    currency: config?.currency || DEFAULT_CURRENCY,
+    locale: config?.locale || DEFAULT_MONEY_LOCALE
+  }
+}
+
+/**
+ * Display a price, e.g. "$12.50" or "12,50 €"
+ */
+export function displayPrice(price: PriceValue | undefined, format: MoneyFormat): string {
+  return formatMoney(price, format.locale, format.currency)
+}
+
+/**
+ * Text for a price input field (legacy "$12.50" -> "12.50")
+ */
+export function priceInputText(price: PriceValue | undefined, format: MoneyFormat): string {
+  return moneyInputValue(toMoney(price, format.currency) ?? undefined)
+}
+
+/**
+ * Price to save from input text: Money, undefined when empty, or the raw
+ * text when it cannot be parsed so the API reports it (422)
+ */
+export function priceFromInput(
+  text: string,
+  format: MoneyFormat,
+  allowNegative = false
+): PriceValue | undefined {
+  if (text.trim() === '') return undefined
+  return parseMoneyInput(text, format.currency, allowNegative) ?? text.trim()
+}
+
+/**
+ * Currency symbol shown in front of price inputs ("$", "€", "CHF")
+ */
+export function currencySymbol(format: MoneyFormat): string {
+  const parts = new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency }).formatToParts(0)
+  return parts.find(part => part.type === 'currency')?.value || format.currency
+}
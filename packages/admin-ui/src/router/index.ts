@@ -10,6 +10,12 @@ const router = createRouter({
       component: () => import('../views/LoginView.vue'),
       meta: { public: true }
     },
+    {
+      path: '/preview/:brand/:store/:menu',
+      name: 'draft-preview',
+      component: () => import('../views/PreviewView.vue'),
+      meta: { public: true }
+    },
     {
       path: '/',
       name: 'brands',
@@ -25,6 +31,12 @@ const router = createRouter({
       name: 'brand-detail',
       component: () => import('../views/BrandDetailView.vue')
     },
+    {
+      // Static segment, so it wins over a store slug
+      path: '/brands/:brand/images',
+      name: 'image-library',
+      component: () => import('../views/ImageLibraryView.vue')
+    },
     {
       path: '/brands/:brand/:store',
       name: 'store-detail',
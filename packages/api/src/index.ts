@@ -5,14 +5,39 @@
 
 import { handleCors, corsHeaders } from './middleware/cors'
 import { authenticate, AuthContext } from './middleware/auth'
-import { handleBrands, handleBrandRegistry } from './routes/brands'
-import { handleStoreConfig } from './routes/stores'
-import { handleMenu, handleMenuSave, handleMenuUpload } from './routes/menus'
-import { handleVersions } from './routes/versions'
-import { handleImageUpload } from './routes/images'
+import {
+  handleBrands,
+  handleBrandRegistry,
+  handleBrandTags,
+  handleSaveBrandTags,
+  handleBrandCatalog,
+  handleSaveBrandCatalog
+} from './routes/brands'
+import { handleStoreConfig, handleActiveMenus, handleStoreConfigSave } from './routes/stores'
+import { handleMenu, handleMenuSave, handleMenuPatch, handleMenuUpload } from './routes/menus'
+import { handleVersions, handleVersionDiff, handleVersionSnapshot, handleVersionRestore } from './routes/versions'
+import { handleImageDelete, handleImageInspect, handleImageList, handleImageUpload } from './routes/images'
 import { handleDeployBrand, handleDeployLocation } from './routes/deploy'
 import { handleStartScrape } from './routes/scrape'
 import { handleApifyWebhook } from './routes/webhook'
+import { handleAuditQuery } from './routes/audit'
+import { handleRunRetention } from './routes/retention'
+import { handleMigratePrices } from './routes/prices'
+import { handleSchedulePublish, handleListScheduled, handleCancelScheduled } from './routes/schedule'
+import { handleItemSoldOut } from './routes/soldout'
+import { handleCloneMenu } from './routes/clone'
+import { handleRenderMenu } from './routes/render'
+import { handleMenuPdf } from './routes/print'
+import { handleMenuQr, handleStoreQrSheet } from './routes/qr'
+import {
+  handleGetDraft,
+  handleSaveDraft,
+  handleDiscardDraft,
+  handlePublishDraft,
+  handleCreatePreview,
+  handlePreview
+} from './routes/drafts'
+import { handleScheduled } from './scheduled'
 
 export interface Env {
   // R2 Buckets
@@ -29,6 +54,19 @@ export interface Env {
   // Supabase
   SUPABASE_URL: string
   SUPABASE_SERVICE_ROLE_KEY: string
+
+  // Version retention (see lib/retention.ts)
+  RETENTION_KEEP_LAST?: string
+  RETENTION_KEEP_DAILY_DAYS?: string
+  RETENTION_KEEP_TYPES?: string
+  RETENTION_MODE?: string
+  RETENTION_DRY_RUN?: string
+
+  // Draft preview links (see lib/drafts.ts)
+  PREVIEW_SIGNING_SECRET?: string
+
+  // Public lookbook URL QR codes point at, e.g. "https://lookbook.menu/{brand}/{store}?menu={menu}" (see lib/qr.ts)
+  LOOKBOOK_URL_TEMPLATE?: string
 }
 
 export interface RequestContext {
@@ -57,6 +95,82 @@ export default {
         return handleApifyWebhook(request, env)
       }
 
+      // GET /api/audit - query audit log (auth required)
+      if (request.method === 'GET' && path === '/api/audit') {
+        const authResult = await authenticate(request, env)
+        if (!authResult.success) {
+          return json({ error: authResult.error }, 401)
+        }
+        return handleAuditQuery(url, env, authResult.context!)
+      }
+
+      // GET /api/drafts/:brand/:store/:menu - get draft (auth required)
+      const draftGetMatch = path.match(/^\/api\/drafts\/([^/]+)\/([^/]+)\/([^/]+)$/)
+      if (request.method === 'GET' && draftGetMatch) {
+        const authResult = await authenticate(request, env)
+        if (!authResult.success) {
+          return json({ error: authResult.error }, 401)
+        }
+        const auth = authResult.context!
+        if (draftGetMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+          return json({ error: 'Forbidden: brand mismatch' }, 403)
+        }
+        return handleGetDraft(env, draftGetMatch[1], draftGetMatch[2], draftGetMatch[3])
+      }
+
+      // GET /api/images/:brand[/:file]?q=&unused= - list or inspect brand images (auth required)
+      const imageGetMatch = path.match(/^\/api\/images\/([^/]+)(?:\/([^/]+))?$/)
+      if (request.method === 'GET' && imageGetMatch) {
+        const authResult = await authenticate(request, env)
+        if (!authResult.success) {
+          return json({ error: authResult.error }, 401)
+        }
+        const auth = authResult.context!
+        if (imageGetMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+          return json({ error: 'Forbidden: brand mismatch' }, 403)
+        }
+        if (!imageGetMatch[2]) {
+          return handleImageList(url, env, imageGetMatch[1])
+        }
+        const file = decodeSegment(imageGetMatch[2])
+        if (file === null) {
+          return json({ error: 'Malformed image file name' }, 400)
+        }
+        return handleImageInspect(env, imageGetMatch[1], file)
+      }
+
+      // GET /api/versions/:brand/:store/:menu/diff?from=&to= - diff two versions (auth required)
+      // GET /api/versions/:brand/:store/:menu/:versionId - version snapshot (auth required)
+      const versionGetMatch = path.match(/^\/api\/versions\/([^/]+)\/([^/]+)\/([^/]+)\/([^/]+)$/)
+      if (request.method === 'GET' && versionGetMatch) {
+        const authResult = await authenticate(request, env)
+        if (!authResult.success) {
+          return json({ error: authResult.error }, 401)
+        }
+        const auth = authResult.context!
+        const [, brand, store, menu, versionId] = versionGetMatch
+        if (brand !== auth.brandSlug && !auth.isSuperAdmin) {
+          return json({ error: 'Forbidden: brand mismatch' }, 403)
+        }
+        return versionId === 'diff'
+          ? handleVersionDiff(env, brand, store, menu, url.searchParams.get('from'), url.searchParams.get('to'))
+          : handleVersionSnapshot(env, brand, store, menu, versionId)
+      }
+
+      // GET /api/menus/:brand/:store/:menu/pdf?template=&photos=&size=&version=&lang= - printable PDF (auth required)
+      const pdfMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/pdf$/)
+      if (request.method === 'GET' && pdfMatch) {
+        const authResult = await authenticate(request, env)
+        if (!authResult.success) {
+          return json({ error: authResult.error }, 401)
+        }
+        const auth = authResult.context!
+        if (pdfMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+          return json({ error: 'Forbidden: brand mismatch' }, 403)
+        }
+        return handleMenuPdf(url, env, pdfMatch[1], pdfMatch[2], pdfMatch[3])
+      }
+
       // Public read routes (no auth required)
       if (request.method === 'GET') {
         // GET /api/brands
@@ -70,16 +184,64 @@ export default {
           return handleBrandRegistry(env, brandMatch[1])
         }
 
+        // GET /api/brands/:brand/tags
+        const brandTagsMatch = path.match(/^\/api\/brands\/([^/]+)\/tags$/)
+        if (brandTagsMatch) {
+          return handleBrandTags(env, brandTagsMatch[1])
+        }
+
+        // GET /api/brands/:brand/catalog
+        const brandCatalogMatch = path.match(/^\/api\/brands\/([^/]+)\/catalog$/)
+        if (brandCatalogMatch) {
+          return handleBrandCatalog(env, brandCatalogMatch[1])
+        }
+
         // GET /api/stores/:brand/:store
         const storeMatch = path.match(/^\/api\/stores\/([^/]+)\/([^/]+)$/)
         if (storeMatch) {
           return handleStoreConfig(env, storeMatch[1], storeMatch[2])
         }
 
-        // GET /api/menus/:brand/:store/:menu
+        // GET /api/stores/:brand/:store/active?at=
+        const activeMatch = path.match(/^\/api\/stores\/([^/]+)\/([^/]+)\/active$/)
+        if (activeMatch) {
+          return handleActiveMenus(url, env, activeMatch[1], activeMatch[2])
+        }
+
+        // GET /api/menus/:brand/:store/:menu?lang=
         const menuMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)$/)
         if (menuMatch) {
-          return handleMenu(env, menuMatch[1], menuMatch[2], menuMatch[3])
+          return handleMenu(env, menuMatch[1], menuMatch[2], menuMatch[3], url.searchParams.get('lang'))
+        }
+
+        // GET /api/menus/:brand/:store/:menu/qr?format=&logo=&placement=&scale=&download=
+        const qrMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/qr$/)
+        if (qrMatch) {
+          return handleMenuQr(url, env, qrMatch[1], qrMatch[2], qrMatch[3])
+        }
+
+        // GET /api/stores/:brand/:store/qr-sheet?placements=&logo=&size=
+        const qrSheetMatch = path.match(/^\/api\/stores\/([^/]+)\/([^/]+)\/qr-sheet$/)
+        if (qrSheetMatch) {
+          return handleStoreQrSheet(url, env, qrSheetMatch[1], qrSheetMatch[2])
+        }
+
+        // GET /menu/:brand/:store/:menu?lang= - rendered HTML with schema.org JSON-LD
+        const renderMatch = path.match(/^\/menu\/([^/]+)\/([^/]+)\/([^/]+)$/)
+        if (renderMatch) {
+          return handleRenderMenu(request, env, renderMatch[1], renderMatch[2], renderMatch[3])
+        }
+
+        // GET /api/preview/:brand/:store/:menu?expires=&sig= - signed draft preview
+        const previewMatch = path.match(/^\/api\/preview\/([^/]+)\/([^/]+)\/([^/]+)$/)
+        if (previewMatch) {
+          return handlePreview(url, env, previewMatch[1], previewMatch[2], previewMatch[3])
+        }
+
+        // GET /api/menus/:brand/:store/:menu/scheduled
+        const scheduledMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/scheduled$/)
+        if (scheduledMatch) {
+          return handleListScheduled(env, scheduledMatch[1], scheduledMatch[2], scheduledMatch[3])
         }
 
         // GET /api/versions/:brand/:store/:menu
@@ -90,7 +252,12 @@ export default {
       }
 
       // Write routes require auth
-      if (request.method === 'PUT' || request.method === 'POST') {
+      if (
+        request.method === 'PUT' ||
+        request.method === 'POST' ||
+        request.method === 'PATCH' ||
+        request.method === 'DELETE'
+      ) {
         const authResult = await authenticate(request, env)
         if (!authResult.success) {
           return json({ error: authResult.error }, 401)
@@ -108,6 +275,53 @@ export default {
             }
             return handleMenuSave(request, env, auth, menuMatch[1], menuMatch[2], menuMatch[3])
           }
+
+          // PUT /api/drafts/:brand/:store/:menu - save draft
+          const draftMatch = path.match(/^\/api\/drafts\/([^/]+)\/([^/]+)\/([^/]+)$/)
+          if (draftMatch) {
+            if (draftMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleSaveDraft(request, env, auth, draftMatch[1], draftMatch[2], draftMatch[3])
+          }
+
+          // PUT /api/stores/:brand/:store - save store config
+          const storeMatch = path.match(/^\/api\/stores\/([^/]+)\/([^/]+)$/)
+          if (storeMatch) {
+            if (storeMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleStoreConfigSave(request, env, storeMatch[1], storeMatch[2])
+          }
+
+          // PUT /api/brands/:brand/tags - save tag vocabulary
+          const brandTagsMatch = path.match(/^\/api\/brands\/([^/]+)\/tags$/)
+          if (brandTagsMatch) {
+            if (brandTagsMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleSaveBrandTags(request, env, brandTagsMatch[1])
+          }
+
+          // PUT /api/brands/:brand/catalog - save master item catalog
+          const brandCatalogMatch = path.match(/^\/api\/brands\/([^/]+)\/catalog$/)
+          if (brandCatalogMatch) {
+            if (brandCatalogMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleSaveBrandCatalog(request, env, brandCatalogMatch[1])
+          }
+        }
+
+        // PATCH /api/menus/:brand/:store/:menu - partial update
+        if (request.method === 'PATCH') {
+          const menuMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)$/)
+          if (menuMatch) {
+            if (menuMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleMenuPatch(request, env, auth, menuMatch[1], menuMatch[2], menuMatch[3])
+          }
         }
 
         // POST /api/menus/:brand/:store/:menu/upload - upload full menu
@@ -120,6 +334,64 @@ export default {
             return handleMenuUpload(request, env, auth, uploadMatch[1], uploadMatch[2], uploadMatch[3])
           }
 
+          // POST /api/menus/:brand/:store/:menu/items/:itemId/sold-out - 86 an item
+          const soldOutMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/items\/([^/]+)\/sold-out$/)
+          if (soldOutMatch) {
+            if (soldOutMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            const itemId = decodeSegment(soldOutMatch[4])
+            if (itemId === null) {
+              return json({ error: 'Malformed item id' }, 400)
+            }
+            return handleItemSoldOut(request, env, auth, soldOutMatch[1], soldOutMatch[2], soldOutMatch[3], itemId)
+          }
+
+          // POST /api/menus/:brand/:store/:menu/schedule - schedule a future publish
+          const scheduleMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/schedule$/)
+          if (scheduleMatch) {
+            if (scheduleMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleSchedulePublish(request, env, auth, scheduleMatch[1], scheduleMatch[2], scheduleMatch[3])
+          }
+
+          // POST /api/menus/:brand/:store/:menu/clone - copy another menu into this one
+          const cloneMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/clone$/)
+          if (cloneMatch) {
+            if (cloneMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleCloneMenu(request, env, auth, cloneMatch[1], cloneMatch[2], cloneMatch[3])
+          }
+
+          // POST /api/drafts/:brand/:store/:menu/publish - promote draft to live
+          const publishMatch = path.match(/^\/api\/drafts\/([^/]+)\/([^/]+)\/([^/]+)\/publish$/)
+          if (publishMatch) {
+            if (publishMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handlePublishDraft(request, env, auth, publishMatch[1], publishMatch[2], publishMatch[3])
+          }
+
+          // POST /api/drafts/:brand/:store/:menu/preview - create signed preview link
+          const previewLinkMatch = path.match(/^\/api\/drafts\/([^/]+)\/([^/]+)\/([^/]+)\/preview$/)
+          if (previewLinkMatch) {
+            if (previewLinkMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleCreatePreview(request, env, previewLinkMatch[1], previewLinkMatch[2], previewLinkMatch[3])
+          }
+
+          // POST /api/versions/:brand/:store/:menu/:versionId/restore - restore version to live
+          const restoreMatch = path.match(/^\/api\/versions\/([^/]+)\/([^/]+)\/([^/]+)\/([^/]+)\/restore$/)
+          if (restoreMatch) {
+            if (restoreMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleVersionRestore(request, env, auth, restoreMatch[1], restoreMatch[2], restoreMatch[3], restoreMatch[4])
+          }
+
           // POST /api/images/:brand - upload image
           const imageMatch = path.match(/^\/api\/images\/([^/]+)$/)
           if (imageMatch) {
@@ -143,6 +415,49 @@ export default {
           if (path === '/api/admin/scrape/dd') {
             return handleStartScrape(request, env, auth)
           }
+
+          // POST /api/admin/retention/run - prune old versions (super-admin only)
+          if (path === '/api/admin/retention/run') {
+            return handleRunRetention(request, env, auth)
+          }
+
+          // POST /api/admin/prices/migrate - convert legacy prices (super-admin only)
+          if (path === '/api/admin/prices/migrate') {
+            return handleMigratePrices(request, env, auth)
+          }
+        }
+
+        // DELETE /api/menus/:brand/:store/:menu/scheduled/:id - cancel a scheduled publish
+        if (request.method === 'DELETE') {
+          const cancelMatch = path.match(/^\/api\/menus\/([^/]+)\/([^/]+)\/([^/]+)\/scheduled\/([^/]+)$/)
+          if (cancelMatch) {
+            if (cancelMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleCancelScheduled(env, cancelMatch[1], cancelMatch[2], cancelMatch[3], cancelMatch[4])
+          }
+
+          // DELETE /api/images/:brand/:file?force= - delete image
+          const imageDeleteMatch = path.match(/^\/api\/images\/([^/]+)\/([^/]+)$/)
+          if (imageDeleteMatch) {
+            if (imageDeleteMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            const file = decodeSegment(imageDeleteMatch[2])
+            if (file === null) {
+              return json({ error: 'Malformed image file name' }, 400)
+            }
+            return handleImageDelete(url, env, auth, imageDeleteMatch[1], file)
+          }
+
+          // DELETE /api/drafts/:brand/:store/:menu - discard draft
+          const draftMatch = path.match(/^\/api\/drafts\/([^/]+)\/([^/]+)\/([^/]+)$/)
+          if (draftMatch) {
+            if (draftMatch[1] !== auth.brandSlug && !auth.isSuperAdmin) {
+              return json({ error: 'Forbidden: brand mismatch' }, 403)
+            }
+            return handleDiscardDraft(env, draftMatch[1], draftMatch[2], draftMatch[3])
+          }
         }
       }
 
@@ -151,6 +466,21 @@ export default {
       console.error('Worker error:', error)
       return json({ error: 'Internal server error' }, 500)
     }
+  },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(handleScheduled(controller, env))
+  }
+}
+
+/**
+ * Decode a percent-encoded path segment (null when the escapes are malformed)
+ */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
   }
 }
 
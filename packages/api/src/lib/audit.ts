@@ -0,0 +1,357 @@
+/**
+ * Audit log library
+ *
+ * Each event is written as its own object, so concurrent writers never race:
+ *   /_logs/{brand}/{store}__{menu}/{date}/{eventId}.json
+ *
+ * A daily compaction job rolls finished days into a single JSONL file
+ * and removes the per-event objects:
+ *   /_logs/{brand}/{store}__{menu}/{date}.jsonl
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import type { VersionType } from './versioning'
+import { listAllObjects, listDirectory } from './r2'
+
+// Sold-out toggles are audited without writing a version snapshot
+export type AuditEventType = VersionType | 'sold-out'
+
+export interface AuditEntry {
+  type: AuditEventType
+  versionId?: string // absent for compact events (sold-out)
+  keyId: string
+  keyLabel?: string
+  ip?: string
+  userAgent?: string
+  itemCount: number
+  changedItemIds?: string[]
+  sourceVersionId?: string
+  clonedFrom?: string
+  soldOut?: { itemId: string; soldOut: boolean; until?: string; autoRestored?: boolean }
+}
+
+export interface AuditRecord extends AuditEntry {
+  id: string
+  brand: string
+  store: string
+  menu: string
+  timestamp: string
+}
+
+export interface AuditQuery {
+  brand?: string
+  store?: string
+  menu?: string
+  keyId?: string
+  type?: string
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+  limit: number
+  cursor?: string
+}
+
+// Log objects (or event listings) read at once while querying
+const AUDIT_READ_CONCURRENCY = 10
+
+// Matches a menu's log prefix, _logs/{brand}/{store}__{menu}/
+const LOG_MENU_PATTERN = /^_logs\/([^/]+)\/([^/]+?)__([^/]+)\/$/
+
+// Matches a day under a menu's log prefix: {date}/ (events) or {date}.jsonl
+const LOG_DAY_PATTERN = /(\d{4}-\d{2}-\d{2})(?:\/|\.jsonl)$/
+
+// Matches both per-event objects and compacted day files
+const LOG_KEY_PATTERN = /^_logs\/([^/]+)\/([^/]+?)__([^/]+)\/(\d{4}-\d{2}-\d{2})(?:\/([^/]+)\.json|\.jsonl)$/
+
+/**
+ * Generate a sortable, collision-safe event id
+ */
+function generateEventId(timestamp: string): string {
+  const bytes = new Uint8Array(4)
+  crypto.getRandomValues(bytes)
+  const suffix = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+  return `${timestamp.replace(/[:.]/g, '-')}-${suffix}`
+}
+
+/**
+ * Actor details for an audit entry (key, client IP, user agent)
+ */
+export function auditActor(
+  request: Request,
+  auth: AuthContext
+): Pick<AuditEntry, 'keyId' | 'keyLabel' | 'ip' | 'userAgent'> {
+  return {
+    keyId: auth.keyId,
+    keyLabel: auth.keyLabel,
+    ip: request.headers.get('CF-Connecting-IP') || undefined,
+    userAgent: request.headers.get('User-Agent') || undefined
+  }
+}
+
+/**
+ * Write an audit event as its own object
+ */
+export async function appendAuditLog(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  entry: AuditEntry
+): Promise<void> {
+  const timestamp = new Date().toISOString()
+  const date = timestamp.split('T')[0] // YYYY-MM-DD
+  const id = generateEventId(timestamp)
+
+  const record: AuditRecord = {
+    id,
+    brand,
+    store,
+    menu,
+    ...entry,
+    timestamp
+  }
+
+  await env.INTERNAL_BUCKET.put(
+    `_logs/${brand}/${store}__${menu}/${date}/${id}.json`,
+    JSON.stringify(record),
+    { httpMetadata: { contentType: 'application/json' } }
+  )
+}
+
+/**
+ * Parse the records held in a log object (single event or compacted day)
+ */
+async function readLogObject(env: Env, key: string): Promise<AuditRecord[]> {
+  const match = key.match(LOG_KEY_PATTERN)
+  if (!match) return []
+
+  const [, brand, store, menu, date, eventId] = match
+  const object = await env.INTERNAL_BUCKET.get(key)
+  if (!object) return []
+
+  const text = await object.text()
+  const lines = eventId ? [text] : text.split('\n')
+  const records: AuditRecord[] = []
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return
+    try {
+      const parsed = JSON.parse(line) as Partial<AuditRecord>
+      // Entries written before per-event storage lack id and location fields
+      records.push({
+        ...parsed,
+        id: parsed.id || `${date}-legacy-${index}`,
+        brand: parsed.brand || brand,
+        store: parsed.store || store,
+        menu: parsed.menu || menu
+      } as AuditRecord)
+    } catch {
+      // Skip malformed lines
+    }
+  })
+
+  return records
+}
+
+/**
+ * Run fn over items, at most AUDIT_READ_CONCURRENCY at a time, in order
+ */
+async function inBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = []
+  for (let i = 0; i < items.length; i += AUDIT_READ_CONCURRENCY) {
+    results.push(...await Promise.all(items.slice(i, i + AUDIT_READ_CONCURRENCY).map(fn)))
+  }
+  return results
+}
+
+/**
+ * Sort order for query results: newest first, then by id
+ */
+function newestFirst(a: Pick<AuditRecord, 'timestamp' | 'id'>, b: Pick<AuditRecord, 'timestamp' | 'id'>): number {
+  return (b.timestamp || '').localeCompare(a.timestamp || '') || b.id.localeCompare(a.id)
+}
+
+/**
+ * Parse a query cursor, "{timestamp}|{id}" of the last entry returned
+ */
+function parseAuditCursor(cursor?: string): { timestamp: string; id: string } | null {
+  const match = cursor?.match(/^(\d{4}-\d{2}-\d{2}T[^|]+)\|(.+)$/)
+  return match ? { timestamp: match[1], id: match[2] } : null
+}
+
+/**
+ * Log prefixes of the menus a query covers, _logs/{brand}/{store}__{menu}/
+ */
+async function listLogMenus(env: Env, query: AuditQuery): Promise<string[]> {
+  if (query.brand && query.store && query.menu) {
+    return [`_logs/${query.brand}/${query.store}__${query.menu}/`]
+  }
+
+  const brandPrefixes = query.brand
+    ? [`_logs/${query.brand}/`]
+    : (await listDirectory(env.INTERNAL_BUCKET, '_logs/')).prefixes
+
+  const listed = await inBatches(brandPrefixes, brandPrefix =>
+    listDirectory(env.INTERNAL_BUCKET, query.store ? `${brandPrefix}${query.store}__` : brandPrefix))
+
+  return listed.flatMap(({ prefixes }) => prefixes).filter(prefix => {
+    const match = prefix.match(LOG_MENU_PATTERN)
+    if (!match) return false
+    const [, , store, menu] = match
+    return (!query.store || store === query.store) && (!query.menu || menu === query.menu)
+  })
+}
+
+/**
+ * Day files and event listings per date, for the days a query covers
+ * Entries are {date}.jsonl keys or {date}/ prefixes holding event objects.
+ */
+async function listLogDays(
+  env: Env,
+  menuPrefixes: string[],
+  from: string | undefined,
+  to: string | undefined
+): Promise<Map<string, string[]>> {
+  // Keys sort by date under each menu, so listing can start at "from"
+  const listed = await inBatches(menuPrefixes, prefix =>
+    listDirectory(env.INTERNAL_BUCKET, prefix, from ? `${prefix}${from}` : undefined))
+
+  const days = new Map<string, string[]>()
+  for (const { objects, prefixes } of listed) {
+    for (const source of [...objects.map(object => object.key), ...prefixes]) {
+      const date = source.match(LOG_DAY_PATTERN)?.[1]
+      if (!date || (from && date < from) || (to && date > to)) continue
+      if (!days.has(date)) days.set(date, [])
+      days.get(date)!.push(source)
+    }
+  }
+  return days
+}
+
+/**
+ * Read every record logged on one day across the given day sources
+ */
+async function readLogDay(env: Env, sources: string[]): Promise<AuditRecord[]> {
+  const keys = (await inBatches(sources, async source => source.endsWith('/')
+    ? (await listAllObjects(env.INTERNAL_BUCKET, source)).map(object => object.key)
+    : [source])).flat()
+
+  return (await inBatches(keys, key => readLogObject(env, key))).flat()
+}
+
+/**
+ * Query the audit log with filters, newest first
+ * Only the menus and days in scope are listed, and days are read newest
+ * first until the page is full. The cursor is "{timestamp}|{id}" of the
+ * last entry returned; the next page continues after it.
+ */
+export async function queryAuditLog(
+  env: Env,
+  query: AuditQuery
+): Promise<{ entries: AuditRecord[]; nextCursor: string | null }> {
+  const after = parseAuditCursor(query.cursor)
+  const cursorDate = after?.timestamp.split('T')[0]
+  const to = cursorDate && (!query.to || cursorDate < query.to) ? cursorDate : query.to
+
+  const menuPrefixes = await listLogMenus(env, query)
+  const days = await listLogDays(env, menuPrefixes, query.from, to)
+  const dates = [...days.keys()].sort().reverse()
+
+  const entries: AuditRecord[] = []
+  let more = false
+
+  for (const [index, date] of dates.entries()) {
+    const records = (await readLogDay(env, days.get(date)!))
+      .filter(r => !query.keyId || r.keyId === query.keyId)
+      .filter(r => !query.type || r.type === query.type)
+      .filter(r => !after || newestFirst(r, after) > 0)
+      .sort(newestFirst)
+
+    entries.push(...records)
+    if (entries.length >= query.limit) {
+      more = entries.length > query.limit || index < dates.length - 1
+      break
+    }
+  }
+
+  const page = entries.slice(0, query.limit)
+  const last = page[page.length - 1]
+
+  return {
+    entries: page,
+    nextCursor: more && last ? `${last.timestamp}|${last.id}` : null
+  }
+}
+
+/**
+ * Ids of the events already in a compacted day file
+ */
+function dayFileEventIds(content: string): Set<string> {
+  const ids = new Set<string>()
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const { id } = JSON.parse(line) as Partial<AuditRecord>
+      if (id) ids.add(id)
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return ids
+}
+
+/**
+ * Roll per-event objects from finished days into {date}.jsonl files
+ * Only days before the current UTC date are compacted; events already in
+ * the day file are not appended again
+ */
+export async function compactAuditLogs(env: Env): Promise<{ days: number; events: number }> {
+  const today = new Date().toISOString().split('T')[0]
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, '_logs/')
+
+  // Group event objects by their day file
+  const groups = new Map<string, string[]>()
+  for (const object of objects) {
+    const match = object.key.match(LOG_KEY_PATTERN)
+    if (!match || !match[5]) continue
+
+    const [, brand, store, menu, date] = match
+    if (date >= today) continue
+
+    const dayKey = `_logs/${brand}/${store}__${menu}/${date}.jsonl`
+    if (!groups.has(dayKey)) groups.set(dayKey, [])
+    groups.get(dayKey)!.push(object.key)
+  }
+
+  let events = 0
+
+  for (const [dayKey, eventKeys] of groups) {
+    const existing = await env.INTERNAL_BUCKET.get(dayKey)
+    let content = existing ? await existing.text() : ''
+
+    // An interrupted or overlapping run may already have appended some of
+    // these events before deleting their objects
+    const compactedIds = dayFileEventIds(content)
+
+    // Event ids are time-ordered, so sorted keys append in order
+    eventKeys.sort()
+    for (const key of eventKeys) {
+      const eventId = key.match(LOG_KEY_PATTERN)?.[5]
+      if (eventId && compactedIds.has(eventId)) continue
+      const object = await env.INTERNAL_BUCKET.get(key)
+      if (!object) continue
+      content += (await object.text()).trim() + '\n'
+    }
+
+    await env.INTERNAL_BUCKET.put(dayKey, content, {
+      httpMetadata: { contentType: 'application/x-ndjson' }
+    })
+    // R2 deletes at most 1000 keys per call
+    for (let i = 0; i < eventKeys.length; i += 1000) {
+      await env.INTERNAL_BUCKET.delete(eventKeys.slice(i, i + 1000))
+    }
+    events += eventKeys.length
+  }
+
+  return { days: groups.size, events }
+}
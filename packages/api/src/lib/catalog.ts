@@ -0,0 +1,40 @@
+/**
+ * Brand master catalog
+ *
+ * Stored in the public bucket next to the brand registry at
+ * {brand}/catalog_{brand}.json. Store menu items link to catalog items by
+ * catalogId and inherit every catalog field they do not override (see
+ * @lookbook/menu-schema catalog.ts). Live menus are written resolved (see
+ * writeLiveMenu) and republished when a linked catalog item changes.
+ */
+
+import type { Env } from '../index'
+import type { MenuData, MenuItem } from './menu'
+import { fetchFromBucket } from './r2'
+import { resolveMenuCatalog, validateCatalog, type BrandCatalog } from '@lookbook/menu-schema'
+
+export function catalogKey(brand: string): string {
+  return `${brand}/catalog_${brand}.json`
+}
+
+/**
+ * Read the brand's catalog (null if it has none or it is invalid)
+ */
+export async function readCatalog(env: Env, brand: string): Promise<BrandCatalog<MenuItem> | null> {
+  const data = await fetchFromBucket(env, catalogKey(brand))
+  return data && validateCatalog(data).valid ? data as BrandCatalog<MenuItem> : null
+}
+
+export async function writeCatalog(env: Env, brand: string, catalog: BrandCatalog<MenuItem>): Promise<void> {
+  await env.MENU_BUCKET.put(catalogKey(brand), JSON.stringify(catalog, null, 2), {
+    httpMetadata: { contentType: 'application/json' }
+  })
+}
+
+/**
+ * Menu with linked items resolved against the brand's current catalog
+ */
+export async function resolveCatalog(env: Env, brand: string, menu: MenuData): Promise<MenuData> {
+  if (!menu.items.some(item => item.catalogId)) return menu
+  return resolveMenuCatalog(menu, await readCatalog(env, brand))
+}
@@ -0,0 +1,177 @@
+/**
+ * Menu cloning
+ *
+ * Copies a menu (or some of its categories) from one {brand}/{store}__{menu}
+ * to another. `replace` swaps the target's items for the cloned ones; `merge`
+ * keeps the target's items, replacing those whose id collides and appending
+ * the rest.
+ *
+ * Cloned items start in stock. Catalog links only survive within a brand;
+ * across brands items keep their resolved values. Images live under
+ * {brand}/images/, so a cross-brand clone can copy the files it references.
+ */
+
+import type { Env } from '../index'
+import type { CategoryTranslations } from '@lookbook/menu-schema'
+import { imageFiles, type MenuData, type MenuItem } from './menu'
+
+export type CloneMode = 'replace' | 'merge'
+
+export interface MenuRef {
+  brand: string
+  store: string
+  menu: string
+}
+
+export interface CloneOptions {
+  mode: CloneMode
+  categories?: string[] // default: every category
+  crossBrand: boolean
+}
+
+export interface CloneCollision {
+  id: string
+  sourceName: string
+  targetName: string
+}
+
+export interface ClonePlan {
+  menu: MenuData
+  clonedItemIds: string[]
+  collisions: CloneCollision[] // target items replaced by a cloned item with the same id
+  images: string[] // filenames referenced by cloned items
+}
+
+export interface ImageCopyResult {
+  copied: string[]
+  existing: string[] // already in the target brand's folder; left untouched
+  missing: string[] // not found in the source brand's folder
+}
+
+export function formatMenuRef(ref: MenuRef): string {
+  return `${ref.brand}/${ref.store}/${ref.menu}`
+}
+
+/**
+ * Categories of a menu in display order (categoryOrder first, then by first use)
+ */
+export function menuCategories(menu: MenuData): string[] {
+  const used = new Set(menu.items.map(item => item.category))
+  const ordered = (menu.meta?.categoryOrder || []).filter(category => used.has(category))
+  return [...new Set([...ordered, ...used])]
+}
+
+function cloneItem(item: MenuItem, crossBrand: boolean): MenuItem {
+  const copy: MenuItem = { ...item }
+  delete copy.soldOut
+  delete copy.soldOutUntil
+  if (crossBrand) {
+    delete copy.catalogId
+    delete copy.overrides
+    delete copy.available
+  }
+  return copy
+}
+
+/**
+ * Image filenames referenced by items (every IMAGE_FIELDS field of items and variants)
+ */
+export function itemImages(items: MenuItem[]): string[] {
+  const images = new Set<string>()
+  for (const item of items) {
+    for (const source of [item, ...(item.variants || [])]) {
+      imageFiles(source).forEach(({ file }) => images.add(file))
+    }
+  }
+  return [...images]
+}
+
+/**
+ * Build the target menu. `source` should already have catalog links resolved.
+ */
+export function planClone(source: MenuData, target: MenuData | null, options: CloneOptions): ClonePlan {
+  const categories = new Set(options.categories || menuCategories(source))
+  const cloned = source.items
+    .filter(item => categories.has(item.category))
+    .map(item => cloneItem(item, options.crossBrand))
+
+  const sourceOrder = menuCategories(source).filter(category => categories.has(category))
+  const sourceTranslations: CategoryTranslations = {}
+  for (const [category, names] of Object.entries(source.meta?.categoryTranslations || {})) {
+    if (categories.has(category)) sourceTranslations[category] = names
+  }
+
+  const existing = options.mode === 'merge' ? target?.items || [] : []
+  const clonedById = new Map(cloned.map(item => [item.id, item]))
+  const collisions: CloneCollision[] = existing
+    .filter(item => clonedById.has(item.id))
+    .map(item => ({ id: item.id, sourceName: clonedById.get(item.id)!.name, targetName: item.name }))
+
+  // Colliding items are replaced in place; the rest are appended
+  const existingIds = new Set(existing.map(item => item.id))
+  const items = [
+    ...existing.map(item => clonedById.get(item.id) || item),
+    ...cloned.filter(item => !existingIds.has(item.id))
+  ]
+
+  const targetOrder = options.mode === 'merge' && target ? menuCategories(target) : []
+  const categoryTranslations = {
+    ...(options.mode === 'merge' ? target?.meta?.categoryTranslations : {}),
+    ...sourceTranslations
+  }
+
+  return {
+    menu: {
+      ...target,
+      meta: {
+        ...target?.meta,
+        categoryOrder: [...new Set([...targetOrder, ...sourceOrder])],
+        categoryTranslations: Object.keys(categoryTranslations).length > 0 ? categoryTranslations : undefined
+      },
+      items
+    },
+    clonedItemIds: cloned.map(item => item.id),
+    collisions,
+    images: itemImages(cloned)
+  }
+}
+
+/**
+ * Copy images between brand folders in the public bucket.
+ * With dryRun, only reports what would be copied.
+ */
+export async function copyImages(
+  env: Env,
+  fromBrand: string,
+  toBrand: string,
+  filenames: string[],
+  dryRun = false
+): Promise<ImageCopyResult> {
+  const result: ImageCopyResult = { copied: [], existing: [], missing: [] }
+
+  for (const filename of filenames) {
+    if (await env.MENU_BUCKET.head(`${toBrand}/images/${filename}`)) {
+      result.existing.push(filename)
+      continue
+    }
+
+    if (dryRun) {
+      const found = await env.MENU_BUCKET.head(`${fromBrand}/images/${filename}`)
+      result[found ? 'copied' : 'missing'].push(filename)
+      continue
+    }
+
+    const object = await env.MENU_BUCKET.get(`${fromBrand}/images/${filename}`)
+    if (!object) {
+      result.missing.push(filename)
+      continue
+    }
+
+    await env.MENU_BUCKET.put(`${toBrand}/images/${filename}`, await object.arrayBuffer(), {
+      httpMetadata: object.httpMetadata
+    })
+    result.copied.push(filename)
+  }
+
+  return result
+}
@@ -0,0 +1,124 @@
+/**
+ * Menu diff library
+ *
+ * Compares two menu snapshots item-by-item, keyed by MenuItem.id
+ */
+
+import type { MenuData, MenuItem } from './menu'
+
+export const DIFF_FIELDS = ['name', 'price', 'description', 'category', 'image', 'variants', 'modifierGroups'] as const
+
+export type DiffField = typeof DIFF_FIELDS[number]
+
+export interface FieldChange {
+  field: DiffField
+  before: MenuItem[DiffField] | null
+  after: MenuItem[DiffField] | null
+}
+
+export interface ItemChange {
+  id: string
+  name: string
+  changes: FieldChange[]
+  otherFields?: string[] // changed fields outside DIFF_FIELDS (translations, tags, ...)
+}
+
+export interface MenuDiff {
+  added: MenuItem[]
+  removed: MenuItem[]
+  changed: ItemChange[]
+  categoryOrder: { before: string[]; after: string[] } | null
+}
+
+/**
+ * Normalize empty values so '', [] and missing fields compare equal
+ */
+function normalize(value: MenuItem[DiffField]): MenuItem[DiffField] | null {
+  if (value === undefined || value === null || value === '') return null
+  if (Array.isArray(value) && value.length === 0) return null
+  return value
+}
+
+/**
+ * JSON with object keys sorted, so key order does not count as a change
+ */
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) => entry && typeof entry === 'object' && !Array.isArray(entry)
+    ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)))
+    : entry)
+}
+
+/**
+ * Names of changed item fields that DIFF_FIELDS does not cover
+ * Compared as-is: for some of them (allergens) empty and missing differ.
+ */
+function otherChangedFields(before: MenuItem, after: MenuItem): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...fields]
+    .filter(field => field !== 'id' && !(DIFF_FIELDS as readonly string[]).includes(field))
+    .filter(field => stableJson(before[field as keyof MenuItem]) !== stableJson(after[field as keyof MenuItem]))
+    .sort()
+}
+
+/**
+ * Diff two menus. Items are matched by id; field changes are reported
+ * for name, price, description, category, image, variants and modifier groups,
+ * and any other changed fields are listed by name.
+ */
+export function diffMenus(before: MenuData, after: MenuData): MenuDiff {
+  const beforeById = new Map(before.items.map(item => [item.id, item]))
+  const afterById = new Map(after.items.map(item => [item.id, item]))
+
+  const added = after.items.filter(item => !beforeById.has(item.id))
+  const removed = before.items.filter(item => !afterById.has(item.id))
+  const changed: ItemChange[] = []
+
+  for (const item of after.items) {
+    const previous = beforeById.get(item.id)
+    if (!previous) continue
+
+    const changes: FieldChange[] = []
+    for (const field of DIFF_FIELDS) {
+      const beforeValue = normalize(previous[field])
+      const afterValue = normalize(item[field])
+      if (stableJson(beforeValue) !== stableJson(afterValue)) {
+        changes.push({ field, before: beforeValue, after: afterValue })
+      }
+    }
+
+    const otherFields = otherChangedFields(previous, item)
+    if (changes.length > 0 || otherFields.length > 0) {
+      changed.push({ id: item.id, name: item.name, changes, ...(otherFields.length > 0 ? { otherFields } : {}) })
+    }
+  }
+
+  const beforeOrder = before.meta?.categoryOrder || []
+  const afterOrder = after.meta?.categoryOrder || []
+  const orderChanged = beforeOrder.length !== afterOrder.length ||
+    beforeOrder.some((category, i) => category !== afterOrder[i])
+
+  return {
+    added,
+    removed,
+    changed,
+    categoryOrder: orderChanged ? { before: beforeOrder, after: afterOrder } : null
+  }
+}
+
+/**
+ * Ids of every item added, removed or changed between two menus
+ * Items are compared whole (every field but id), as stable JSON. Sold-out
+ * state is left out: live carries it over every save (see writeLiveMenu).
+ */
+export function changedItemIds(before: MenuData | null, after: MenuData): string[] {
+  if (!before) return after.items.map(item => item.id)
+
+  const itemJson = ({ id: _id, soldOut: _soldOut, soldOutUntil: _until, ...rest }: MenuItem) => stableJson(rest)
+  const beforeById = new Map(before.items.map(item => [item.id, itemJson(item)]))
+  const afterIds = new Set(after.items.map(item => item.id))
+
+  return [
+    ...after.items.filter(item => beforeById.get(item.id) !== itemJson(item)).map(item => item.id),
+    ...before.items.filter(item => !afterIds.has(item.id)).map(item => item.id)
+  ]
+}
@@ -0,0 +1,121 @@
+/**
+ * Draft workspace library
+ *
+ * Each menu has at most one draft, kept in the internal bucket:
+ *   /_drafts/{brand}/{store}__{menu}.json
+ *
+ * Drafts never touch the live menu until published. Preview links are
+ * HMAC-signed with PREVIEW_SIGNING_SECRET and expire.
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import type { MenuData } from './menu'
+import { hmacSha256, timingSafeEqual } from './crypto'
+
+export interface Draft {
+  data: MenuData
+  baseVersionId: string | null // Live version the draft was started from
+  updatedAt: string
+  keyId: string
+  keyLabel?: string
+}
+
+export const DEFAULT_PREVIEW_TTL_SECONDS = 7 * 24 * 60 * 60
+export const MAX_PREVIEW_TTL_SECONDS = 30 * 24 * 60 * 60
+
+export function draftKey(brand: string, store: string, menu: string): string {
+  return `_drafts/${brand}/${store}__${menu}.json`
+}
+
+/**
+ * Read a menu's draft (null if none)
+ */
+export async function readDraft(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Draft | null> {
+  const object = await env.INTERNAL_BUCKET.get(draftKey(brand, store, menu))
+  if (!object) return null
+
+  try {
+    return await object.json<Draft>()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Create or replace a menu's draft
+ */
+export async function writeDraft(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  baseVersionId: string | null,
+  auth: AuthContext
+): Promise<Draft> {
+  const draft: Draft = {
+    data,
+    baseVersionId,
+    updatedAt: new Date().toISOString(),
+    keyId: auth.keyId,
+    keyLabel: auth.keyLabel
+  }
+
+  await env.INTERNAL_BUCKET.put(draftKey(brand, store, menu), JSON.stringify(draft, null, 2), {
+    httpMetadata: { contentType: 'application/json' }
+  })
+
+  return draft
+}
+
+/**
+ * Delete a menu's draft
+ */
+export async function deleteDraft(env: Env, brand: string, store: string, menu: string): Promise<void> {
+  await env.INTERNAL_BUCKET.delete(draftKey(brand, store, menu))
+}
+
+function previewMessage(brand: string, store: string, menu: string, expires: number): string {
+  return `preview:${brand}/${store}/${menu}:${expires}`
+}
+
+/**
+ * Sign a preview link for a menu's draft
+ * expires is a Unix timestamp in seconds
+ */
+export async function signPreview(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  expires: number
+): Promise<string> {
+  if (!env.PREVIEW_SIGNING_SECRET) {
+    throw new Error('PREVIEW_SIGNING_SECRET is not configured')
+  }
+  return hmacSha256(env.PREVIEW_SIGNING_SECRET, previewMessage(brand, store, menu, expires))
+}
+
+/**
+ * Verify a preview link signature and expiry
+ */
+export async function verifyPreview(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  expires: number,
+  signature: string
+): Promise<boolean> {
+  if (!env.PREVIEW_SIGNING_SECRET || !Number.isInteger(expires)) return false
+  if (expires * 1000 < Date.now()) return false
+
+  const expected = await signPreview(env, brand, store, menu, expires)
+  return timingSafeEqual(expected, signature)
+}
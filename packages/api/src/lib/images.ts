@@ -0,0 +1,179 @@
+/**
+ * Brand images in the public bucket
+ *
+ * Item photos live at {brand}/images/{file} (MenuItem.image holds the file
+ * name); the brand logo is {brand}/images/logo.{ext}, written by deploy.
+ *
+ * References are looked up across the brand's live menus, drafts, pending
+ * scheduled publishes and catalog. Version snapshots are not scanned, so
+ * restoring an old version can bring back a deleted image's file name.
+ */
+
+import type { Env } from '../index'
+import type { StoreConfig } from '@lookbook/menu-schema'
+import { fetchFromBucket } from './r2'
+import { imageFiles, readLiveMenu, type ImageField, type MenuItem } from './menu'
+import { readDraft } from './drafts'
+import { readBrandScheduledMenus } from './scheduling'
+import { readCatalog } from './catalog'
+import { brandRegistryKey } from './registry'
+import { storeConfigKey } from './stores'
+
+// Logo formats the PDF and QR renderers can embed
+const LOGO_EXTENSIONS = ['png', 'jpg', 'jpeg']
+
+export interface BrandLogo {
+  data: Uint8Array
+  contentType: string
+}
+
+export interface BrandImage {
+  file: string
+  url: string
+  size: number
+  contentType: string
+  uploadedAt: string
+}
+
+export interface ImageReference {
+  source: 'live' | 'draft' | 'scheduled' | 'catalog' | 'logo'
+  store?: string
+  menu?: string
+  scheduleId?: string
+  itemId?: string
+  itemName?: string
+  variantId?: string // set when the variant's own image is used
+  field?: ImageField // item or variant field holding the file name
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+}
+
+export function brandImageKey(brand: string, file: string): string {
+  return `${brand}/images/${file}`
+}
+
+/**
+ * Read the brand logo (null when missing or in another format)
+ */
+export async function readBrandLogo(env: Env, brand: string): Promise<BrandLogo | null> {
+  const listed = await env.MENU_BUCKET.list({ prefix: brandImageKey(brand, 'logo.') })
+  const logo = listed.objects.find(object => LOGO_EXTENSIONS.includes(object.key.split('.').pop()!.toLowerCase()))
+  if (!logo) return null
+
+  const object = await env.MENU_BUCKET.get(logo.key)
+  if (!object) return null
+  const extension = logo.key.split('.').pop()!.toLowerCase()
+  return {
+    data: new Uint8Array(await object.arrayBuffer()),
+    contentType: object.httpMetadata?.contentType || (extension === 'png' ? 'image/png' : 'image/jpeg')
+  }
+}
+
+function toBrandImage(env: Env, brand: string, object: R2Object): BrandImage {
+  const file = object.key.slice(brandImageKey(brand, '').length)
+  const extension = file.split('.').pop()!.toLowerCase()
+  return {
+    file,
+    url: `${env.R2_PUBLIC_URL}/${object.key}`,
+    size: object.size,
+    // Listings carry no HTTP metadata, so fall back to the extension
+    contentType: object.httpMetadata?.contentType || CONTENT_TYPES[extension] || 'application/octet-stream',
+    uploadedAt: object.uploaded.toISOString()
+  }
+}
+
+/**
+ * One page of the brand's images, in key order
+ */
+export async function listBrandImages(
+  env: Env,
+  brand: string,
+  limit: number,
+  cursor?: string
+): Promise<{ images: BrandImage[]; cursor: string | null }> {
+  const listed = await env.MENU_BUCKET.list({ prefix: brandImageKey(brand, ''), delimiter: '/', limit, cursor })
+  return {
+    images: listed.objects.map(object => toBrandImage(env, brand, object)),
+    cursor: listed.truncated ? listed.cursor : null
+  }
+}
+
+/**
+ * Details of a single image (null if missing)
+ */
+export async function headBrandImage(env: Env, brand: string, file: string): Promise<BrandImage | null> {
+  const object = await env.MENU_BUCKET.head(brandImageKey(brand, file))
+  return object ? toBrandImage(env, brand, object) : null
+}
+
+function addItemReferences(
+  references: Map<string, ImageReference[]>,
+  items: MenuItem[],
+  base: ImageReference
+): void {
+  const add = (file: string, reference: ImageReference) => {
+    const list = references.get(file) || []
+    list.push(reference)
+    references.set(file, list)
+  }
+  for (const item of items) {
+    for (const { field, file } of imageFiles(item)) {
+      add(file, { ...base, itemId: item.id, itemName: item.name, field })
+    }
+    for (const variant of item.variants || []) {
+      for (const { field, file } of imageFiles(variant)) {
+        add(file, { ...base, itemId: item.id, itemName: item.name, variantId: variant.id, field })
+      }
+    }
+  }
+}
+
+/**
+ * Everything in the brand that points at its images, by file name
+ */
+export async function readImageReferences(env: Env, brand: string): Promise<Map<string, ImageReference[]>> {
+  const references = new Map<string, ImageReference[]>()
+
+  const [registry, catalog, scheduled, logos] = await Promise.all([
+    fetchFromBucket(env, brandRegistryKey(brand)) as Promise<{ stores?: { slug: string }[] } | null>,
+    readCatalog(env, brand),
+    readBrandScheduledMenus(env, brand),
+    env.MENU_BUCKET.list({ prefix: brandImageKey(brand, 'logo.') })
+  ])
+
+  const stores = await Promise.all((registry?.stores || []).map(async ({ slug }) => ({
+    slug,
+    config: await fetchFromBucket(env, storeConfigKey(brand, slug)) as StoreConfig | null
+  })))
+
+  await Promise.all(stores.flatMap(({ slug, config }) => (config?.menus || []).map(async ({ id }) => {
+    const [live, draft] = await Promise.all([
+      readLiveMenu(env, brand, slug, id),
+      readDraft(env, brand, slug, id)
+    ])
+    if (live) addItemReferences(references, live.items, { source: 'live', store: slug, menu: id })
+    if (draft) addItemReferences(references, draft.data.items, { source: 'draft', store: slug, menu: id })
+  })))
+
+  for (const entry of scheduled) {
+    addItemReferences(references, entry.data.items, {
+      source: 'scheduled',
+      store: entry.store,
+      menu: entry.menu,
+      scheduleId: entry.id
+    })
+  }
+  if (catalog) addItemReferences(references, catalog.items, { source: 'catalog' })
+  for (const object of logos.objects) {
+    const file = object.key.slice(brandImageKey(brand, '').length)
+    references.set(file, [...(references.get(file) || []), { source: 'logo' }])
+  }
+
+  return references
+}
@@ -0,0 +1,219 @@
+/**
+ * Live menu helpers
+ *
+ * Live menus are served from the public bucket at /{brand}/{store}__{menu}.json
+ */
+
+import type { Env } from '../index'
+import { fetchFromBucket } from './r2'
+import { resolveCatalog } from './catalog'
+import { getCurrentVersionId } from './versioning'
+import {
+  IMAGE_FIELDS,
+  type ItemTranslations,
+  type CategoryTranslations,
+  type CatalogOverrideField,
+  type Money,
+  type PriceValue
+} from '@lookbook/menu-schema'
+
+export interface ModifierOption {
+  id: string
+  name: string
+  priceDelta: Money | number // added to the item price; legacy numbers are major units (1.5 for "+$1.50")
+}
+
+export interface ModifierGroup {
+  id: string
+  name: string
+  minSelections: number
+  maxSelections: number
+  required: boolean
+  options: ModifierOption[]
+}
+
+export interface ItemVariant {
+  id: string
+  label: string // e.g. "Small", "Glass"
+  price: PriceValue
+  image?: string // filename under {brand}/images/, like MenuItem.image
+}
+
+export interface MenuItem {
+  id: string
+  name: string
+  category: string
+  price?: PriceValue // Money; legacy number/string until migrated (lib/prices.ts)
+  description?: string
+  image?: string
+  gif?: string
+  storeImage?: string
+  expectedImage?: string
+  variants?: ItemVariant[]
+  modifierGroups?: ModifierGroup[]
+  dietary?: string[] // tag ids from the brand's tag vocabulary
+  allergens?: string[] // [] declares no allergens; missing means not declared
+  spiceLevel?: number // 0 (mild) to the vocabulary's maxSpiceLevel
+  soldOut?: boolean // "86'd" during service; see lib/soldout.ts
+  soldOutUntil?: string // ISO time the item is automatically restored
+  translations?: ItemTranslations // e.g. { es: { name, description } }
+  catalogId?: string // links to the brand catalog; see lib/catalog.ts
+  overrides?: CatalogOverrideField[] // catalog fields this store sets itself
+  available?: boolean // false hides a catalog dish at this store
+}
+
+export interface MenuData {
+  meta?: {
+    categoryOrder?: string[]
+    categoryTranslations?: CategoryTranslations
+    locale?: string // set on single-locale responses (?lang=)
+  }
+  items: MenuItem[]
+}
+
+export function isMenuData(data: unknown): data is MenuData {
+  if (!data || typeof data !== 'object') return false
+  const obj = data as Record<string, unknown>
+  return Array.isArray(obj.items)
+}
+
+/**
+ * Items grouped by category in display order, unavailable items removed
+ */
+export function menuSections(menu: MenuData): [string, MenuItem[]][] {
+  const sections = new Map<string, MenuItem[]>()
+  for (const category of menu.meta?.categoryOrder || []) {
+    sections.set(category, [])
+  }
+  for (const item of menu.items) {
+    if (item.available === false) continue
+    const section = sections.get(item.category) || []
+    section.push(item)
+    sections.set(item.category, section)
+  }
+  return [...sections].filter(([, items]) => items.length > 0)
+}
+
+export type ImageField = typeof IMAGE_FIELDS[number]
+
+/**
+ * Image filenames an item or variant points at, by field (IMAGE_FIELDS)
+ */
+export function imageFiles(source: MenuItem | ItemVariant): { field: ImageField; file: string }[] {
+  const fields = source as Partial<Record<ImageField, unknown>>
+  return IMAGE_FIELDS.flatMap(field => {
+    const value = fields[field]
+    return typeof value === 'string' && value ? [{ field, file: value }] : []
+  })
+}
+
+/**
+ * Public bucket key for a live menu
+ */
+export function liveMenuKey(brand: string, store: string, menu: string): string {
+  return `${brand}/${store}__${menu}.json`
+}
+
+/**
+ * Read the live menu (null if missing or not a menu)
+ */
+export async function readLiveMenu(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<MenuData | null> {
+  const data = await fetchFromBucket(env, liveMenuKey(brand, store, menu))
+  return isMenuData(data) ? data : null
+}
+
+const LIVE_WRITE_ATTEMPTS = 5
+
+/**
+ * Copy sold-out state from the current live menu onto the items it also has
+ * Sold-out state only changes through lib/soldout.ts, so a save made from a
+ * copy loaded before an item was 86'd does not bring the item back.
+ */
+function carrySoldOut(current: MenuData | null, data: MenuData): MenuData {
+  if (!current) return data
+  const liveById = new Map(current.items.map(item => [item.id, item]))
+  return {
+    ...data,
+    items: data.items.map(item => {
+      const live = liveById.get(item.id)
+      if (!live) return item
+      const { soldOut: _soldOut, soldOutUntil: _until, ...rest } = item
+      if (!live.soldOut) return rest
+      return { ...rest, soldOut: true, ...(live.soldOutUntil ? { soldOutUntil: live.soldOutUntil } : {}) }
+    })
+  }
+}
+
+/**
+ * Read-modify-write the live menu with a conditional put, retried when
+ * another write lands in between
+ * update returns the menu to write, or null to leave live as it is.
+ * Returns the menu written (null if update declined).
+ */
+export async function updateLiveMenu(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  update: (current: MenuData | null) => MenuData | null | Promise<MenuData | null>
+): Promise<MenuData | null> {
+  const liveKey = liveMenuKey(brand, store, menu)
+
+  for (let attempt = 1; attempt <= LIVE_WRITE_ATTEMPTS; attempt++) {
+    const existing = await env.MENU_BUCKET.get(liveKey)
+    let current: MenuData | null = null
+    if (existing) {
+      try {
+        const data = await existing.json()
+        current = isMenuData(data) ? data : null
+      } catch {
+        // Overwrite a corrupted live menu
+      }
+    }
+
+    const next = await update(current)
+    if (!next) return null
+
+    const written = await env.MENU_BUCKET.put(liveKey, JSON.stringify(next, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: existing ? { etagMatches: existing.etag } : new Headers({ 'If-None-Match': '*' })
+    })
+    if (written) return next
+  }
+
+  throw new Error(`Live menu ${brand}/${store}/${menu} kept changing; not written`)
+}
+
+/**
+ * Write menu JSON to live (public bucket)
+ * Linked items are resolved against the brand catalog first, so clients
+ * reading the file directly get the catalog's current values, and sold-out
+ * state is carried over from the current live menu.
+ * With versionId, live is only written while that version is still the
+ * manifest's current one, so a slower save can't replace a newer version.
+ * Returns the public URL of the live menu
+ */
+export async function writeLiveMenu(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  versionId?: string
+): Promise<string> {
+  const resolved = await resolveCatalog(env, brand, data)
+  await updateLiveMenu(env, brand, store, menu, async current => {
+    if (versionId && await getCurrentVersionId(env, brand, store, menu) !== versionId) {
+      console.log(`[menu] Skipped live write of ${brand}/${store}/${menu}: ${versionId} is no longer current`)
+      return null
+    }
+    return carrySoldOut(current, resolved)
+  })
+
+  return `${env.R2_PUBLIC_URL}/${liveMenuKey(brand, store, menu)}`
+}
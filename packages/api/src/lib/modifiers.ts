@@ -0,0 +1,123 @@
+/**
+ * Modifier group normalization for scraped menus
+ *
+ * DoorDash items carry an untyped `options` array (e.g. "Choose a size",
+ * "Add toppings"). Field names vary between scraper versions, so each value
+ * is read from the first known key present. Groups or options without a name
+ * are dropped rather than failing the import. DoorDash prices are in USD.
+ */
+
+import type { ModifierGroup, ModifierOption } from './menu'
+import { parsePriceToCents } from './apify'
+import { DEFAULT_CURRENCY } from '@lookbook/menu-schema'
+
+type RawRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function pick(record: RawRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null) return record[key]
+  }
+  return undefined
+}
+
+function pickString(record: RawRecord, keys: string[]): string | null {
+  const value = pick(record, keys)
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+function pickCount(record: RawRecord, keys: string[]): number | null {
+  const value = Number(pick(record, keys))
+  return Number.isInteger(value) && value >= 0 ? value : null
+}
+
+/**
+ * Price delta in cents from { amount }, "+$1.50", 1.5, or unit_amount cents
+ */
+function parsePriceDeltaCents(record: RawRecord): number {
+  const cents = record.unit_amount ?? record.unitAmount
+  if (typeof cents === 'number') return Math.round(cents)
+
+  const price = pick(record, ['price', 'priceDelta', 'price_delta', 'displayPrice', 'display_price'])
+  if (isRecord(price)) {
+    if (typeof price.amount === 'number') return Math.round(price.amount * 100)
+    if (typeof price.unit_amount === 'number') return Math.round(price.unit_amount)
+    return parsePriceToCents(price.display as string | undefined) ?? 0
+  }
+  if (typeof price === 'number' || typeof price === 'string') {
+    return parsePriceToCents(price) ?? 0
+  }
+  return 0
+}
+
+/**
+ * Slug for generated ids, e.g. "Extra Cheese" -> "extra-cheese"
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'option'
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let id = base
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`
+  used.add(id)
+  return id
+}
+
+function parseOptions(rawOptions: unknown): ModifierOption[] {
+  if (!Array.isArray(rawOptions)) return []
+
+  const used = new Set<string>()
+  const options: ModifierOption[] = []
+  for (const raw of rawOptions) {
+    if (!isRecord(raw)) continue
+    const name = pickString(raw, ['name', 'title', 'displayName', 'display_name'])
+    if (!name) continue
+
+    options.push({
+      id: uniqueId(slugify(name), used),
+      name,
+      priceDelta: { amount: parsePriceDeltaCents(raw), currency: DEFAULT_CURRENCY }
+    })
+  }
+  return options
+}
+
+/**
+ * Convert a scraped item's `options` array into modifier groups
+ * Selection limits are clamped so the result passes schema validation.
+ */
+export function modifierGroupsFromScraped(rawGroups: unknown): ModifierGroup[] {
+  if (!Array.isArray(rawGroups)) return []
+
+  const used = new Set<string>()
+  const groups: ModifierGroup[] = []
+  for (const raw of rawGroups) {
+    if (!isRecord(raw)) continue
+    const name = pickString(raw, ['name', 'title', 'displayName', 'display_name'])
+    const options = parseOptions(pick(raw, ['options', 'items', 'choices']))
+    if (!name || options.length === 0) continue
+
+    const isOptional = pick(raw, ['isOptional', 'is_optional'])
+    const requiredFlag = pick(raw, ['required', 'isRequired', 'is_required'])
+    let min = pickCount(raw, ['minSelections', 'min_num_options', 'minNumOptions', 'min']) ?? 0
+    const max = pickCount(raw, ['maxSelections', 'max_num_options', 'maxNumOptions', 'max']) || options.length
+
+    if (min === 0 && (requiredFlag === true || isOptional === false)) min = 1
+    const maxSelections = Math.min(Math.max(max, 1), options.length)
+    const minSelections = Math.min(min, maxSelections)
+
+    groups.push({
+      id: uniqueId(slugify(name), used),
+      name,
+      minSelections,
+      maxSelections,
+      required: minSelections > 0,
+      options
+    })
+  }
+  return groups
+}
@@ -0,0 +1,260 @@
+/**
+ * Menu patch library
+ *
+ * Two formats are supported for partial menu updates:
+ * 1. RFC 6902 JSON Patch: [{ "op": "replace", "path": "/items/3/price", "value": "12.00" }]
+ * 2. Item operations: { "operations": [{ "op": "upsertItem", "item": { "id": "...", "price": "12.00" } }] }
+ */
+
+import type { MenuData, MenuItem } from './menu'
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test'
+  path: string
+  from?: string
+  value?: unknown
+}
+
+export type ItemOperation =
+  | { op: 'upsertItem'; item: Partial<MenuItem> & { id: string }; index?: number }
+  | { op: 'deleteItem'; id: string }
+  | { op: 'moveItem'; id: string; index: number; category?: string }
+  | { op: 'setCategoryOrder'; categoryOrder: string[] }
+
+/**
+ * Thrown when a patch cannot be applied; index is the failing operation
+ */
+export class PatchError extends Error {
+  constructor(message: string, public index: number) {
+    super(message)
+    this.name = 'PatchError'
+  }
+}
+
+// ============================================================================
+// RFC 6902 JSON Patch
+// ============================================================================
+
+type Container = Record<string, unknown> | unknown[]
+
+function parsePointer(pointer: string, index: number): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new PatchError(`Invalid JSON pointer: "${pointer}"`, index)
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null
+}
+
+function arrayIndex(token: string, length: number, allowEnd: boolean, index: number): number {
+  if (allowEnd && token === '-') return length
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new PatchError(`Invalid array index: "${token}"`, index)
+  }
+  const position = parseInt(token, 10)
+  if (position > length || (!allowEnd && position === length)) {
+    throw new PatchError(`Array index out of bounds: ${position}`, index)
+  }
+  return position
+}
+
+/**
+ * Resolve the parent container and final token of a pointer
+ */
+function resolveParent(doc: unknown, tokens: string[], index: number): { parent: Container; key: string } {
+  let current: unknown = doc
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(token, current.length, false, index)]
+    } else if (isContainer(current) && token in current) {
+      current = (current as Record<string, unknown>)[token]
+    } else {
+      throw new PatchError(`Path not found: /${tokens.join('/')}`, index)
+    }
+  }
+  if (!isContainer(current)) {
+    throw new PatchError(`Path not found: /${tokens.join('/')}`, index)
+  }
+  return { parent: current, key: tokens[tokens.length - 1] }
+}
+
+function getValue(doc: unknown, tokens: string[], index: number): unknown {
+  if (tokens.length === 0) return doc
+  const { parent, key } = resolveParent(doc, tokens, index)
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(key, parent.length, false, index)]
+  }
+  if (!(key in parent)) {
+    throw new PatchError(`Path not found: /${tokens.join('/')}`, index)
+  }
+  return parent[key]
+}
+
+function addValue(doc: unknown, tokens: string[], value: unknown, index: number): unknown {
+  if (tokens.length === 0) return value
+  const { parent, key } = resolveParent(doc, tokens, index)
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length, true, index), 0, value)
+  } else {
+    parent[key] = value
+  }
+  return doc
+}
+
+function removeValue(doc: unknown, tokens: string[], index: number): unknown {
+  if (tokens.length === 0) {
+    throw new PatchError('Cannot remove the document root', index)
+  }
+  const { parent, key } = resolveParent(doc, tokens, index)
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length, false, index), 1)
+  } else {
+    if (!(key in parent)) {
+      throw new PatchError(`Path not found: /${tokens.join('/')}`, index)
+    }
+    delete parent[key]
+  }
+  return doc
+}
+
+/**
+ * Apply an RFC 6902 JSON Patch. The input document is not modified.
+ */
+export function applyJsonPatch(doc: unknown, operations: JsonPatchOperation[]): unknown {
+  let result: unknown = structuredClone(doc)
+
+  operations.forEach((operation, index) => {
+    if (!operation || typeof operation.path !== 'string') {
+      throw new PatchError('Operation must have a "path"', index)
+    }
+    const tokens = parsePointer(operation.path, index)
+
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, tokens, structuredClone(operation.value), index)
+        break
+      case 'remove':
+        result = removeValue(result, tokens, index)
+        break
+      case 'replace':
+        if (tokens.length === 0) {
+          result = structuredClone(operation.value)
+          break
+        }
+        getValue(result, tokens, index) // Target must exist
+        result = addValue(removeValue(result, tokens, index), tokens, structuredClone(operation.value), index)
+        break
+      case 'move': {
+        if (typeof operation.from !== 'string') {
+          throw new PatchError('"move" requires "from"', index)
+        }
+        if (operation.path.startsWith(operation.from + '/')) {
+          throw new PatchError('Cannot move a value into one of its children', index)
+        }
+        const fromTokens = parsePointer(operation.from, index)
+        const value = getValue(result, fromTokens, index)
+        result = addValue(removeValue(result, fromTokens, index), tokens, value, index)
+        break
+      }
+      case 'copy': {
+        if (typeof operation.from !== 'string') {
+          throw new PatchError('"copy" requires "from"', index)
+        }
+        const value = getValue(result, parsePointer(operation.from, index), index)
+        result = addValue(result, tokens, structuredClone(value), index)
+        break
+      }
+      case 'test': {
+        const value = getValue(result, tokens, index)
+        if (JSON.stringify(value) !== JSON.stringify(operation.value)) {
+          throw new PatchError(`Test failed at ${operation.path}`, index)
+        }
+        break
+      }
+      default:
+        throw new PatchError(`Unknown operation: "${(operation as { op: unknown }).op}"`, index)
+    }
+  })
+
+  return result
+}
+
+// ============================================================================
+// Item operations
+// ============================================================================
+
+/**
+ * Apply item operations to a menu. The input menu is not modified.
+ * Returns the patched menu and ids of items moved without content changes.
+ */
+export function applyItemOperations(
+  menu: MenuData,
+  operations: ItemOperation[]
+): { menu: MenuData; movedItemIds: string[] } {
+  const result: MenuData = structuredClone(menu)
+  const movedItemIds: string[] = []
+
+  operations.forEach((operation, index) => {
+    switch (operation?.op) {
+      case 'upsertItem': {
+        const item = operation.item
+        if (!item || typeof item.id !== 'string' || !item.id) {
+          throw new PatchError('"upsertItem" requires an item with an "id"', index)
+        }
+        const position = operation.index ?? result.items.length
+        if (!Number.isInteger(position) || position < 0 || position > result.items.length) {
+          throw new PatchError(`"upsertItem" index out of bounds: ${operation.index}`, index)
+        }
+
+        const existing = result.items.findIndex(i => i.id === item.id)
+        if (existing !== -1) {
+          result.items[existing] = { ...result.items[existing], ...item }
+        } else {
+          if (typeof item.name !== 'string' || typeof item.category !== 'string') {
+            throw new PatchError(`New item "${item.id}" requires "name" and "category"`, index)
+          }
+          result.items.splice(position, 0, item as MenuItem)
+        }
+        break
+      }
+      case 'deleteItem': {
+        const existing = result.items.findIndex(i => i.id === operation.id)
+        if (existing === -1) {
+          throw new PatchError(`Item not found: "${operation.id}"`, index)
+        }
+        result.items.splice(existing, 1)
+        break
+      }
+      case 'moveItem': {
+        const existing = result.items.findIndex(i => i.id === operation.id)
+        if (existing === -1) {
+          throw new PatchError(`Item not found: "${operation.id}"`, index)
+        }
+        if (!Number.isInteger(operation.index) || operation.index < 0) {
+          throw new PatchError('"moveItem" requires a non-negative "index"', index)
+        }
+        const [item] = result.items.splice(existing, 1)
+        if (operation.category) {
+          item.category = operation.category
+        }
+        result.items.splice(Math.min(operation.index, result.items.length), 0, item)
+        movedItemIds.push(item.id)
+        break
+      }
+      case 'setCategoryOrder': {
+        if (!Array.isArray(operation.categoryOrder) || operation.categoryOrder.some(c => typeof c !== 'string')) {
+          throw new PatchError('"setCategoryOrder" requires a string array', index)
+        }
+        result.meta = { ...result.meta, categoryOrder: operation.categoryOrder }
+        break
+      }
+      default:
+        throw new PatchError(`Unknown operation: "${(operation as { op?: unknown })?.op}"`, index)
+    }
+  })
+
+  return { menu: result, movedItemIds }
+}
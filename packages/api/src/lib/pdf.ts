@@ -0,0 +1,364 @@
+/**
+ * Minimal PDF writer
+ *
+ * Enough of PDF 1.4 for printable menus: pages with text in the standard
+ * Helvetica fonts (not embedded, WinAnsi encoding), filled rectangles and
+ * JPEG/PNG images. Coordinates are points from the top-left of the page.
+ *
+ * Text is measured with the Helvetica AFM widths so callers can wrap lines.
+ * Characters outside WinAnsi are printed without accents where possible,
+ * otherwise as "?".
+ */
+
+import { decodePng, deflate, isPng, readPng } from './png'
+
+export type PdfFont = 'regular' | 'bold'
+
+export type PdfColor = [number, number, number] // RGB, 0-1
+
+export interface PdfImage {
+  id: number
+  width: number // pixels
+  height: number
+}
+
+interface ImageObject {
+  dict: string
+  data: Uint8Array
+  smask?: { dict: string; data: Uint8Array }
+}
+
+// Glyph widths (1/1000 em) of characters 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+}
+
+// Width used for non-ASCII WinAnsi characters (close to most accented letters)
+const DEFAULT_WIDTH = 556
+
+// WinAnsi codes of the non-Latin-1 characters menus commonly use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  'Œ': 0x8c, 'œ': 0x9c, 'Š': 0x8a, 'š': 0x9a, 'Ž': 0x8e, 'ž': 0x9e, 'Ÿ': 0x9f
+}
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' }
+
+/**
+ * WinAnsi byte codes of a string
+ */
+function encodeWinAnsi(text: string): number[] {
+  const codes: number[] = []
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    if (code >= 32 && code <= 126) codes.push(code)
+    else if (code >= 0xa0 && code <= 0xff) codes.push(code)
+    else if (WIN_ANSI_EXTRAS[char]) codes.push(WIN_ANSI_EXTRAS[char])
+    else if (/\s/.test(char)) codes.push(32)
+    else {
+      const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      const baseCode = base.length === 1 ? base.charCodeAt(0) : 0
+      codes.push(baseCode >= 32 && baseCode <= 126 ? baseCode : 63)
+    }
+  }
+  return codes
+}
+
+/**
+ * Width of text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0
+  for (const code of encodeWinAnsi(text)) {
+    width += code <= 126 ? WIDTHS[font][code - 32] : DEFAULT_WIDTH
+  }
+  return width * size / 1000
+}
+
+/**
+ * Break text into lines no wider than maxWidth (words longer than a line are split)
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      line = word
+      while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    if (line) lines.push(line)
+  }
+  return lines
+}
+
+// PDF string literal; non-ASCII bytes as octal escapes so content stays ASCII
+function pdfString(text: string): string {
+  let out = '('
+  for (const code of encodeWinAnsi(text)) {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${String.fromCharCode(code)}`
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, '0')}`
+    else out += String.fromCharCode(code)
+  }
+  return `${out})`
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function fillColor(rgb: PdfColor): string {
+  return `${rgb.map(num).join(' ')} rg`
+}
+
+function isJpeg(data: Uint8Array): boolean {
+  return data[0] === 0xff && data[1] === 0xd8
+}
+
+// Size and component count from a JPEG's frame header
+function jpegFrame(data: Uint8Array): { width: number; height: number; components: number } | null {
+  let i = 2
+  while (i + 9 < data.length) {
+    if (data[i] !== 0xff) return null
+    const marker = data[i + 1]
+    if (marker === 0xff) {
+      i++
+      continue
+    }
+    // SOF markers (C4 = DHT, C8 = reserved, CC = DAC are not frames)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[i + 5] << 8) | data[i + 6],
+        width: (data[i + 7] << 8) | data[i + 8],
+        components: data[i + 9]
+      }
+    }
+    i += 2 + ((data[i + 2] << 8) | data[i + 3])
+  }
+  return null
+}
+
+function jpegImage(data: Uint8Array): ImageObject | null {
+  const frame = jpegFrame(data)
+  if (!frame) return null
+  const { width, height, components } = frame
+  // CMYK JPEGs are often stored inverted; leave them out rather than print negatives
+  if (components !== 1 && components !== 3) return null
+  const colorSpace = components === 1 ? '/DeviceGray' : '/DeviceRGB'
+  return {
+    dict: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+    data
+  }
+}
+
+/**
+ * Pixel size of a JPEG or PNG from its header, without decoding it
+ * (null for other formats)
+ */
+export function imageDimensions(bytes: ArrayBuffer | Uint8Array): { width: number; height: number } | null {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  if (isJpeg(data)) {
+    const frame = jpegFrame(data)
+    return frame && { width: frame.width, height: frame.height }
+  }
+  // IHDR is always the first chunk: width and height follow its type
+  if (!isPng(data) || data.length < 24) return null
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
+
+async function pngImage(data: Uint8Array): Promise<ImageObject | null> {
+  const png = readPng(data)
+  if (!png) return null
+  const { width, height, bitDepth, colorType, palette } = png
+
+  // Without alpha the IDAT stream is valid FlateDecode data with the PNG predictor
+  if (colorType === 0 || colorType === 2 || (colorType === 3 && !png.transparency)) {
+    const colors = colorType === 2 ? 3 : 1
+    const colorSpace = colorType === 0
+      ? '/DeviceGray'
+      : colorType === 2
+        ? '/DeviceRGB'
+        : `[/Indexed /DeviceRGB ${palette!.length / 3 - 1} <${Array.from(palette!, b => b.toString(16).padStart(2, '0')).join('')}>]`
+    return {
+      dict: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+      data: png.data
+    }
+  }
+
+  // With transparency: decode and split the alpha channel into a soft mask
+  const image = await decodePng(data)
+  if (!image) return null
+  const rgb = new Uint8Array(width * height * 3)
+  const alpha = new Uint8Array(width * height)
+  for (let p = 0; p < width * height; p++) {
+    rgb.set(image.pixels.subarray(p * 4, p * 4 + 3), p * 3)
+    alpha[p] = image.pixels[p * 4 + 3]
+  }
+
+  const base = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8 /Filter /FlateDecode`
+  return {
+    dict: `${base} /ColorSpace /DeviceRGB`,
+    data: await deflate(rgb),
+    smask: { dict: `${base} /ColorSpace /DeviceGray`, data: await deflate(alpha) }
+  }
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+  private images: ImageObject[] = []
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+  }
+
+  private get content(): string[] {
+    if (this.pages.length === 0) this.addPage()
+    return this.pages[this.pages.length - 1]
+  }
+
+  /**
+   * Add a JPEG or PNG for use with drawImage (null for unsupported formats)
+   */
+  async addImage(bytes: ArrayBuffer | Uint8Array): Promise<PdfImage | null> {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+    const image = isJpeg(data) ? jpegImage(data) : isPng(data) ? await pngImage(data) : null
+    if (!image) return null
+
+    const size = image.dict.match(/\/Width (\d+) \/Height (\d+)/)!
+    this.images.push(image)
+    return { id: this.images.length - 1, width: Number(size[1]), height: Number(size[2]) }
+  }
+
+  /**
+   * Draw text with its baseline at y
+   */
+  text(text: string, x: number, y: number, font: PdfFont, size: number, rgb: PdfColor = [0, 0, 0]): void {
+    this.content.push(
+      `BT ${fillColor(rgb)} /${FONT_NAMES[font]} ${num(size)} Tf ${num(x)} ${num(this.height - y)} Td ${pdfString(text)} Tj ET`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, rgb: PdfColor): void {
+    this.content.push(`${fillColor(rgb)} ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`)
+  }
+
+  /**
+   * Draw an image into a box: "contain" keeps all of it, "cover" fills the box and crops
+   */
+  drawImage(image: PdfImage, x: number, y: number, width: number, height: number, fit: 'contain' | 'cover' = 'contain'): void {
+    const scale = fit === 'cover'
+      ? Math.max(width / image.width, height / image.height)
+      : Math.min(width / image.width, height / image.height)
+    const w = image.width * scale
+    const h = image.height * scale
+    const left = x + (width - w) / 2
+    const bottom = this.height - y - height + (height - h) / 2
+    const clip = fit === 'cover' ? `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re W n ` : ''
+    this.content.push(`q ${clip}${num(w)} 0 0 ${num(h)} ${num(left)} ${num(bottom)} cm /Im${image.id} Do Q`)
+  }
+
+  async save(title: string): Promise<Uint8Array> {
+    const encoder = new TextEncoder()
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length
+      if (stream) {
+        write(`${id} 0 obj\n<< ${body} /Length ${stream.length} >>\nstream\n`)
+        write(stream)
+        write('\nendstream\nendobj\n')
+      } else {
+        write(`${id} 0 obj\n${body}\nendobj\n`)
+      }
+    }
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images (+ soft masks), then page/content pairs
+    if (this.pages.length === 0) this.addPage()
+    let next = 6
+    const imageIds = this.images.map(image => {
+      const id = next++
+      const smaskId = image.smask ? next++ : null
+      return { id, smaskId }
+    })
+    const pageIds = this.pages.map(() => {
+      const id = next
+      next += 2
+      return id
+    })
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+    object(5, `<< /Title ${pdfString(title)} /Producer (Lookbook Admin) >>`)
+
+    this.images.forEach((image, index) => {
+      const { id, smaskId } = imageIds[index]
+      object(id, smaskId ? `${image.dict} /SMask ${smaskId} 0 R` : image.dict, image.data)
+      if (image.smask && smaskId) object(smaskId, image.smask.dict, image.smask.data)
+    })
+
+    const xObjects = imageIds.map(({ id }, index) => `/Im${index} ${id} 0 R`).join(' ')
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`
+    for (const [index, ops] of this.pages.entries()) {
+      const id = pageIds[index]
+      object(
+        id,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources ${resources} /Contents ${id + 1} 0 R >>`
+      )
+      object(id + 1, '/Filter /FlateDecode', await deflate(encoder.encode(ops.join('\n'))))
+    }
+
+    const xref = length
+    write(`xref\n0 ${next}\n0000000000 65535 f \n`)
+    for (let id = 1; id < next; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${next} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`)
+
+    const output = new Uint8Array(length)
+    chunks.reduce((offset, chunk) => (output.set(chunk, offset), offset + chunk.length), 0)
+    return output
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * PNG reading and writing (non-interlaced images only)
+ *
+ * Used by the PDF writer (lib/pdf.ts) to embed logos and photos and by QR
+ * codes (lib/qr.ts) to render PNGs. Compression uses the runtime's
+ * CompressionStream, so there are no dependencies.
+ */
+
+export interface PngChunks {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number // 0 gray, 2 RGB, 3 palette, 4 gray+alpha, 6 RGBA
+  palette: Uint8Array | null
+  transparency: Uint8Array | null // tRNS alpha per palette entry
+  data: Uint8Array // concatenated IDAT (zlib)
+}
+
+export interface RgbaImage {
+  width: number
+  height: number
+  pixels: Uint8Array // 4 bytes per pixel
+}
+
+// Largest image decoded in memory (pixels)
+export const MAX_DECODED_PIXELS = 4_000_000
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+async function pipe(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+export const deflate = (data: Uint8Array) => pipe(data, new CompressionStream('deflate'))
+export const inflate = (data: Uint8Array) => pipe(data, new DecompressionStream('deflate'))
+
+export function isPng(data: Uint8Array): boolean {
+  return SIGNATURE.every((byte, i) => data[i] === byte)
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  chunks.reduce((offset, chunk) => (output.set(chunk, offset), offset + chunk.length), 0)
+  return output
+}
+
+/**
+ * Header, palette and image data of a PNG (null if not a non-interlaced PNG)
+ */
+export function readPng(data: Uint8Array): PngChunks | null {
+  if (!isPng(data)) return null
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const png: PngChunks = { width: 0, height: 0, bitDepth: 0, colorType: 0, palette: null, transparency: null, data: new Uint8Array() }
+  const idat: Uint8Array[] = []
+  let interlace = 0
+
+  for (let i = 8; i + 8 <= data.length;) {
+    const length = view.getUint32(i)
+    const type = String.fromCharCode(...data.subarray(i + 4, i + 8))
+    const chunk = data.subarray(i + 8, i + 8 + length)
+    if (type === 'IHDR') {
+      png.width = view.getUint32(i + 8)
+      png.height = view.getUint32(i + 12)
+      png.bitDepth = chunk[8]
+      png.colorType = chunk[9]
+      interlace = chunk[12]
+    } else if (type === 'PLTE') {
+      png.palette = chunk
+    } else if (type === 'tRNS') {
+      png.transparency = chunk
+    } else if (type === 'IDAT') {
+      idat.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+    i += 12 + length
+  }
+
+  if (!png.width || !png.height || interlace !== 0 || idat.length === 0) return null
+  if (png.colorType === 3 && !png.palette) return null
+  png.data = concat(idat)
+  return png
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+// Reverse PNG scanline filters (8-bit samples, bpp bytes per pixel)
+function unfilter(data: Uint8Array, width: number, height: number, bpp: number): Uint8Array {
+  const stride = width * bpp
+  const out = new Uint8Array(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)]
+    const src = y * (stride + 1) + 1
+    const row = y * stride
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0
+      const b = y > 0 ? out[row + x - stride] : 0
+      const c = x >= bpp && y > 0 ? out[row + x - stride - bpp] : 0
+      const raw = data[src + x]
+      switch (filter) {
+        case 0: out[row + x] = raw; break
+        case 1: out[row + x] = raw + a; break
+        case 2: out[row + x] = raw + b; break
+        case 3: out[row + x] = raw + ((a + b) >> 1); break
+        case 4: out[row + x] = raw + paeth(a, b, c); break
+        default: throw new Error(`Invalid PNG filter ${filter}`)
+      }
+    }
+  }
+  return out
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+/**
+ * Decode an 8-bit PNG to RGBA (null for other bit depths or very large images)
+ */
+export async function decodePng(data: Uint8Array): Promise<RgbaImage | null> {
+  const png = readPng(data)
+  if (!png || png.bitDepth !== 8 || png.width * png.height > MAX_DECODED_PIXELS) return null
+
+  const channels = CHANNELS[png.colorType]
+  const samples = unfilter(await inflate(png.data), png.width, png.height, channels)
+  const pixels = new Uint8Array(png.width * png.height * 4)
+
+  for (let p = 0; p < png.width * png.height; p++) {
+    const s = p * channels
+    const o = p * 4
+    switch (png.colorType) {
+      case 0:
+      case 4:
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = samples[s]
+        pixels[o + 3] = png.colorType === 4 ? samples[s + 1] : 255
+        break
+      case 2:
+      case 6:
+        pixels[o] = samples[s]
+        pixels[o + 1] = samples[s + 1]
+        pixels[o + 2] = samples[s + 2]
+        pixels[o + 3] = png.colorType === 6 ? samples[s + 3] : 255
+        break
+      case 3: {
+        const index = samples[s]
+        pixels[o] = png.palette![index * 3]
+        pixels[o + 1] = png.palette![index * 3 + 1]
+        pixels[o + 2] = png.palette![index * 3 + 2]
+        pixels[o + 3] = png.transparency?.[index] ?? 255
+        break
+      }
+    }
+  }
+  return { width: png.width, height: png.height, pixels }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+/**
+ * Encode 8-bit RGB pixels (3 bytes per pixel) as a PNG
+ */
+export async function encodePng(width: number, height: number, rgb: Uint8Array): Promise<Uint8Array> {
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header.set([8, 2, 0, 0, 0], 8) // 8-bit RGB, no interlace
+
+  // Filter type 0 (none) on every row
+  const stride = width * 3
+  const raw = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  return concat([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array())
+  ])
+}
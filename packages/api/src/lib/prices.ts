@@ -0,0 +1,207 @@
+/**
+ * Price migration library
+ *
+ * Converts legacy number/string prices ("$12.50", 12.5) to Money
+ * ({ amount: 1250, currency: "USD" }, see @lookbook/menu-schema money.ts)
+ * in every stored copy of a menu:
+ * - live menus in the public bucket: /{brand}/{store}__{menu}.json
+ * - version snapshots: /_versions/{brand}/{store}__{menu}/{versionId}.json
+ * - drafts: /_drafts/{brand}/{store}__{menu}.json
+ * - scheduled publishes: /_scheduled/{brand}/{store}__{menu}/{id}.json
+ *
+ * Each store's config currency is used. Objects are rewritten in place, so
+ * version ids and ETags do not change. A run handles at most
+ * MAX_MIGRATION_OBJECTS menu copies and returns a cursor to resume from.
+ * Reports are written to /_reports/prices/{timestamp}.json.
+ */
+
+import type { Env } from '../index'
+import { isMenuData, type MenuData } from './menu'
+import { readStoreCurrency } from './stores'
+import { normalizeMenuPrices } from '@lookbook/menu-schema'
+
+export interface PriceMigrationResult {
+  key: string
+  converted: number
+}
+
+export interface PriceMigrationReport {
+  dryRun: boolean
+  cursor: string | null // where this run started
+  nextCursor: string | null // pass back to continue; null when done
+  startedAt: string
+  finishedAt: string
+  updated: PriceMigrationResult[]
+  failed: Array<{ key: string; error: string }>
+  totals: { scanned: number; updated: number; converted: number }
+}
+
+// Menu copies migrated per run
+export const MAX_MIGRATION_OBJECTS = 500
+
+interface MigrationSource {
+  name: 'live' | 'versions' | 'drafts' | 'scheduled'
+  bucket: (env: Env) => R2Bucket
+  prefix: string
+  pattern: RegExp // captures brand and store
+  wrapped: boolean // menu stored under `data` (drafts, scheduled publishes)
+}
+
+// Walked in this order; the cursor is "{source}:{last key}"
+const SOURCES: MigrationSource[] = [
+  {
+    name: 'live',
+    bucket: env => env.MENU_BUCKET,
+    prefix: '',
+    pattern: /^([^/_][^/]*)\/([^/]+?)__([^/]+)\.json$/,
+    wrapped: false
+  },
+  {
+    name: 'versions',
+    bucket: env => env.INTERNAL_BUCKET,
+    prefix: '_versions/',
+    pattern: /^_versions\/([^/]+)\/([^/]+?)__([^/]+)\/(?!manifest\.json$)[^/]+\.json$/,
+    wrapped: false
+  },
+  {
+    name: 'drafts',
+    bucket: env => env.INTERNAL_BUCKET,
+    prefix: '_drafts/',
+    pattern: /^_drafts\/([^/]+)\/([^/]+?)__([^/]+)\.json$/,
+    wrapped: true
+  },
+  {
+    name: 'scheduled',
+    bucket: env => env.INTERNAL_BUCKET,
+    prefix: '_scheduled/',
+    pattern: /^_scheduled\/([^/]+)\/([^/]+?)__([^/]+)\/[^/]+\.json$/,
+    wrapped: true
+  }
+]
+
+/**
+ * Parse a migration cursor (null if it is not one)
+ */
+export function parsePriceMigrationCursor(cursor: string): { source: number; key: string } | null {
+  const separator = cursor.indexOf(':')
+  const source = SOURCES.findIndex(entry => entry.name === cursor.slice(0, separator))
+  return separator > 0 && source >= 0 ? { source, key: cursor.slice(separator + 1) } : null
+}
+
+/**
+ * Convert the legacy prices in one stored menu copy
+ * Returns the number of prices converted (0 if none, or not a menu); throws
+ * if the object changed since it was read
+ */
+async function migrateObject(
+  env: Env,
+  source: MigrationSource,
+  key: string,
+  currency: string,
+  dryRun: boolean
+): Promise<number> {
+  const bucket = source.bucket(env)
+  const object = await bucket.get(key)
+  if (!object) return 0
+
+  const stored = await object.json<unknown>()
+  const menu = source.wrapped ? (stored as { data?: unknown }).data : stored
+  if (!isMenuData(menu)) return 0
+
+  const { menu: normalized, converted } = normalizeMenuPrices<MenuData>(menu, currency)
+  if (converted === 0 || dryRun) return converted
+
+  // Only overwrite the copy that was read; a save in between wins and is reported
+  const next = source.wrapped ? { ...(stored as object), data: normalized } : normalized
+  const written = await bucket.put(key, JSON.stringify(next, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+    onlyIf: { etagMatches: object.etag }
+  })
+  if (!written) {
+    throw new Error('Changed while migrating; run the migration again to convert it')
+  }
+  return converted
+}
+
+/**
+ * Convert legacy prices in live menus, version snapshots, drafts and
+ * scheduled publishes, starting after `cursor`
+ */
+export async function migratePrices(
+  env: Env,
+  options: { dryRun: boolean; cursor?: string }
+): Promise<PriceMigrationReport> {
+  const startedAt = new Date()
+  const start = options.cursor ? parsePriceMigrationCursor(options.cursor) : null
+  const currencies = new Map<string, string>()
+
+  const updated: PriceMigrationResult[] = []
+  const failed: Array<{ key: string; error: string }> = []
+  let scanned = 0
+  let lastCursor: string | null = null
+  let more = false
+
+  sources:
+  for (let index = start?.source ?? 0; index < SOURCES.length; index++) {
+    const source = SOURCES[index]
+    const startAfter = index === start?.source ? start.key : undefined
+    let listCursor: string | undefined
+
+    do {
+      const listed = await source.bucket(env).list({
+        prefix: source.prefix,
+        cursor: listCursor,
+        startAfter: listCursor ? undefined : startAfter
+      })
+
+      for (const { key } of listed.objects) {
+        const match = key.match(source.pattern)
+        if (!match) continue
+        if (scanned === MAX_MIGRATION_OBJECTS) {
+          more = true
+          break sources
+        }
+        scanned++
+        lastCursor = `${source.name}:${key}`
+
+        try {
+          const storeKey = `${match[1]}/${match[2]}`
+          if (!currencies.has(storeKey)) {
+            currencies.set(storeKey, await readStoreCurrency(env, match[1], match[2]))
+          }
+
+          const converted = await migrateObject(env, source, key, currencies.get(storeKey)!, options.dryRun)
+          if (converted > 0) updated.push({ key, converted })
+        } catch (error) {
+          failed.push({ key, error: error instanceof Error ? error.message : 'Unknown error' })
+        }
+      }
+
+      listCursor = listed.truncated ? listed.cursor : undefined
+    } while (listCursor)
+  }
+
+  const report: PriceMigrationReport = {
+    dryRun: options.dryRun,
+    cursor: options.cursor || null,
+    nextCursor: more ? lastCursor : null,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    updated,
+    failed,
+    totals: {
+      scanned,
+      updated: updated.length,
+      converted: updated.reduce((acc, result) => acc + result.converted, 0)
+    }
+  }
+
+  const reportId = report.startedAt.replace(/[:.]/g, '-')
+  await env.INTERNAL_BUCKET.put(
+    `_reports/prices/${reportId}${options.dryRun ? '-dry-run' : ''}.json`,
+    JSON.stringify(report, null, 2),
+    { httpMetadata: { contentType: 'application/json' } }
+  )
+
+  return report
+}
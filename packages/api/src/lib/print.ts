@@ -0,0 +1,290 @@
+/**
+ * Printable menus (PDF, see lib/pdf.ts)
+ *
+ * Templates:
+ * - one-page: two columns, scaled down until the menu fits a single page
+ *   (table tents, counter cards)
+ * - multi-page: one column with larger type and photos, flowing over as
+ *   many pages as needed, numbered in the footer
+ *
+ * Both follow meta.categoryOrder and leave out items not offered at the
+ * store. Photos are optional in either template; the brand logo heads the
+ * first page.
+ */
+
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_MONEY_LOCALE,
+  formatMoney,
+  type PriceValue,
+  type StoreConfig,
+  type TagVocabulary
+} from '@lookbook/menu-schema'
+import { PdfDocument, textWidth, wrapText, type PdfColor, type PdfFont, type PdfImage } from './pdf'
+import { menuSections, type MenuData, type MenuItem } from './menu'
+
+export const PRINT_TEMPLATES = ['one-page', 'multi-page'] as const
+
+export type PrintTemplate = typeof PRINT_TEMPLATES[number]
+
+// Width and height in points
+export const PAGE_SIZES = {
+  letter: [612, 792],
+  a4: [595.28, 841.89]
+} as const
+
+export type PageSize = keyof typeof PAGE_SIZES
+
+export interface PrintOptions {
+  template: PrintTemplate
+  photos: boolean
+  pageSize: PageSize
+}
+
+export interface PrintContext {
+  brandName: string
+  store: StoreConfig
+  menuLabel: string
+  menu: MenuData // catalog-resolved and localized
+  tags: TagVocabulary
+  logo: Uint8Array | null
+  photos: Map<string, ArrayBuffer> // by image filename
+}
+
+interface Layout {
+  width: number
+  height: number
+  columns: number
+  scale: number
+  photoSize: number // before scaling
+  photos: Map<string, PdfImage>
+  logo: PdfImage | null
+}
+
+interface ItemBlock {
+  nameLines: string[]
+  price: string
+  variantLines: string[]
+  descriptionLines: string[]
+  tagLines: string[]
+  photo: PdfImage | null
+  height: number
+}
+
+const MARGIN = 36
+const GUTTER = 24
+const FOOTER_HEIGHT = 18
+const LEADING = 1.25
+const TEXT: PdfColor = [0.12, 0.16, 0.22]
+const MUTED: PdfColor = [0.42, 0.45, 0.5]
+const RULE: PdfColor = [0.85, 0.87, 0.9]
+
+// Smallest scale the one-page template shrinks to before spilling onto a second page
+const MIN_ONE_PAGE_SCALE = 0.55
+
+// Type sizes (points) at scale 1
+const SIZES = {
+  title: 20,
+  subtitle: 11,
+  heading: 14,
+  name: 11,
+  description: 9,
+  tags: 8,
+  footer: 8,
+  logo: 48
+}
+
+function size(layout: Layout, key: keyof typeof SIZES): number {
+  return SIZES[key] * layout.scale
+}
+
+function columnWidth(layout: Layout): number {
+  return (layout.width - 2 * MARGIN - (layout.columns - 1) * GUTTER) / layout.columns
+}
+
+function price(value: PriceValue | undefined, store: StoreConfig): string {
+  return formatMoney(value, store.locale || DEFAULT_MONEY_LOCALE, store.currency || DEFAULT_CURRENCY)
+}
+
+function measureItem(item: MenuItem, width: number, layout: Layout, context: PrintContext): ItemBlock {
+  const photo = (item.image && layout.photos.get(item.image)) || null
+  const photoSize = photo ? layout.photoSize * layout.scale : 0
+  const textWidthAvailable = width - (photo ? photoSize + 8 * layout.scale : 0)
+  const nameSize = size(layout, 'name')
+  const descriptionSize = size(layout, 'description')
+  const tagSize = size(layout, 'tags')
+
+  const single = item.variants?.length ? '' : price(item.price, context.store)
+  const priceWidth = single ? textWidth(single, 'bold', nameSize) + 8 * layout.scale : 0
+  const variants = (item.variants || []).map(variant => `${variant.label} ${price(variant.price, context.store)}`)
+  const labels = new Map(context.tags.dietary.map(tag => [tag.id, tag.label]))
+  const tags = (item.dietary || []).map(tag => labels.get(tag) || tag)
+
+  const block = {
+    nameLines: wrapText(item.name, 'bold', nameSize, textWidthAvailable - priceWidth),
+    price: single,
+    variantLines: variants.length > 0 ? wrapText(variants.join(' · '), 'regular', descriptionSize, textWidthAvailable) : [],
+    descriptionLines: item.description ? wrapText(item.description, 'regular', descriptionSize, textWidthAvailable) : [],
+    tagLines: tags.length > 0 ? wrapText(tags.join(' · '), 'regular', tagSize, textWidthAvailable) : [],
+    photo,
+    height: 0
+  }
+  const textHeight = block.nameLines.length * nameSize * LEADING
+    + (block.variantLines.length + block.descriptionLines.length) * descriptionSize * LEADING
+    + block.tagLines.length * tagSize * LEADING
+  block.height = Math.max(textHeight, photoSize) + 8 * layout.scale
+  return block
+}
+
+function drawItem(doc: PdfDocument, block: ItemBlock, x: number, y: number, width: number, layout: Layout): void {
+  const photoSize = layout.photoSize * layout.scale
+  if (block.photo) {
+    doc.drawImage(block.photo, x, y, photoSize, photoSize, 'cover')
+  }
+  const textX = x + (block.photo ? photoSize + 8 * layout.scale : 0)
+
+  let baseline = y
+  const line = (text: string, font: PdfFont, key: keyof typeof SIZES, color: PdfColor) => {
+    baseline += size(layout, key) * LEADING
+    doc.text(text, textX, baseline - size(layout, key) * (LEADING - 1), font, size(layout, key), color)
+  }
+
+  block.nameLines.forEach((text, index) => {
+    line(text, 'bold', 'name', TEXT)
+    if (index === 0 && block.price) {
+      const nameSize = size(layout, 'name')
+      const priceX = x + width - textWidth(block.price, 'bold', nameSize)
+      doc.text(block.price, priceX, baseline - nameSize * (LEADING - 1), 'bold', nameSize, TEXT)
+    }
+  })
+  block.variantLines.forEach(text => line(text, 'regular', 'description', TEXT))
+  block.descriptionLines.forEach(text => line(text, 'regular', 'description', MUTED))
+  block.tagLines.forEach(text => line(text, 'regular', 'tags', MUTED))
+}
+
+/**
+ * Height of the first-page header (logo, brand name, store and menu)
+ */
+function drawHeader(doc: PdfDocument | null, layout: Layout, context: PrintContext): number {
+  const logoHeight = layout.logo ? size(layout, 'logo') : 0
+  const logoWidth = layout.logo
+    ? Math.min(logoHeight * layout.logo.width / layout.logo.height, 160 * layout.scale)
+    : 0
+  const titleSize = size(layout, 'title')
+  const subtitleSize = size(layout, 'subtitle')
+  const textHeight = (titleSize + subtitleSize) * LEADING
+  const height = Math.max(logoHeight, textHeight)
+
+  if (doc) {
+    const textX = MARGIN + (layout.logo ? logoWidth + 12 * layout.scale : 0)
+    const textTop = MARGIN + (height - textHeight) / 2
+    if (layout.logo) doc.drawImage(layout.logo, MARGIN, MARGIN, logoWidth, logoHeight)
+    doc.text(context.brandName, textX, textTop + titleSize, 'bold', titleSize, TEXT)
+    doc.text(
+      `${context.store.name} · ${context.menuLabel}`,
+      textX,
+      textTop + titleSize * LEADING + subtitleSize,
+      'regular',
+      subtitleSize,
+      MUTED
+    )
+    doc.rect(MARGIN, MARGIN + height + 8 * layout.scale, layout.width - 2 * MARGIN, 0.75, RULE)
+  }
+  return height + 20 * layout.scale
+}
+
+function drawFooter(doc: PdfDocument, layout: Layout, context: PrintContext, page: number, pages: number): void {
+  const footerSize = SIZES.footer
+  const baseline = layout.height - MARGIN + footerSize
+  doc.text(`${context.store.name} · ${context.menuLabel}`, MARGIN, baseline, 'regular', footerSize, MUTED)
+  const label = `Page ${page} of ${pages}`
+  doc.text(label, layout.width - MARGIN - textWidth(label, 'regular', footerSize), baseline, 'regular', footerSize, MUTED)
+}
+
+/**
+ * Lay out (and with a document, draw) the menu; returns the number of pages used
+ */
+function render(doc: PdfDocument | null, layout: Layout, context: PrintContext, pages = 0): number {
+  const width = columnWidth(layout)
+  const bottom = layout.height - MARGIN - FOOTER_HEIGHT
+  const headingSize = size(layout, 'heading')
+  const headingHeight = headingSize * LEADING + 10 * layout.scale
+
+  let page = 1
+  let column = 0
+  let top = MARGIN + drawHeader(doc, layout, context)
+  let y = top
+
+  const nextColumn = () => {
+    column++
+    if (column >= layout.columns) {
+      if (doc && pages > 1) drawFooter(doc, layout, context, page, pages)
+      column = 0
+      page++
+      top = MARGIN
+      doc?.addPage()
+    }
+    y = top
+  }
+  // Start a new column unless the block fits (or the column is empty anyway)
+  const reserve = (height: number) => {
+    if (y + height > bottom && y > top) nextColumn()
+  }
+  const x = () => MARGIN + column * (width + GUTTER)
+
+  for (const [category, items] of menuSections(context.menu)) {
+    const blocks = items.map(item => measureItem(item, width, layout, context))
+
+    // Keep the heading with its first item
+    reserve(headingHeight + blocks[0].height)
+    if (doc) {
+      doc.text(category, x(), y + headingSize, 'bold', headingSize, TEXT)
+      doc.rect(x(), y + headingSize * LEADING + 2 * layout.scale, width, 0.5, RULE)
+    }
+    y += headingHeight
+
+    for (const block of blocks) {
+      reserve(block.height)
+      if (doc) drawItem(doc, block, x(), y, width, layout)
+      y += block.height
+    }
+    y += 6 * layout.scale
+  }
+
+  if (doc && pages > 1) drawFooter(doc, layout, context, page, pages)
+  return page
+}
+
+export async function renderMenuPdf(context: PrintContext, options: PrintOptions): Promise<Uint8Array> {
+  const [width, height] = PAGE_SIZES[options.pageSize]
+  const doc = new PdfDocument(width, height)
+
+  const photos = new Map<string, PdfImage>()
+  if (options.photos) {
+    for (const [file, bytes] of context.photos) {
+      const image = await doc.addImage(bytes)
+      if (image) photos.set(file, image)
+    }
+  }
+
+  const onePage = options.template === 'one-page'
+  const layout: Layout = {
+    width,
+    height,
+    columns: onePage ? 2 : 1,
+    scale: 1,
+    photoSize: onePage ? 40 : 64,
+    photos,
+    logo: context.logo ? await doc.addImage(context.logo) : null
+  }
+
+  if (onePage) {
+    while (layout.scale > MIN_ONE_PAGE_SCALE && render(null, layout, context) > 1) {
+      layout.scale = Math.round((layout.scale - 0.05) * 100) / 100
+    }
+  }
+
+  // Measure first so footers know the page count
+  render(doc, layout, context, render(null, layout, context))
+  return doc.save(`${context.menuLabel} - ${context.store.name}`)
+}
@@ -0,0 +1,594 @@
+/**
+ * QR codes for store menus
+ *
+ * Encodes URLs as QR codes (ISO/IEC 18004, byte mode, versions 1-40) and
+ * renders them as SVG or PNG. With a brand logo the code uses error
+ * correction level H and the logo covers the center on a white plate,
+ * well within what H can recover.
+ *
+ * Codes point at the public lookbook: LOOKBOOK_URL_TEMPLATE when set
+ * (e.g. "https://lookbook.menu/{brand}/{store}?menu={menu}"), otherwise the
+ * API's rendered menu page (/menu/:brand/:store/:menu, see lib/seo.ts).
+ * Tracking parameters identify the table or placement a scan came from.
+ * Printable sheets lay the codes for a store out as PDF (see lib/pdf.ts).
+ */
+
+import type { Env } from '../index'
+import { decodePng, encodePng, isPng, type RgbaImage } from './png'
+import { PdfDocument, textWidth, wrapText, type PdfColor, type PdfImage } from './pdf'
+import { PAGE_SIZES, type PageSize } from './print'
+import type { BrandLogo } from './images'
+
+export type ErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+export interface QrCode {
+  size: number // modules per side, without the quiet zone
+  modules: boolean[][] // [y][x], true = dark
+}
+
+export interface QrTracking {
+  placement?: string // e.g. "table-12", "window"
+}
+
+export interface QrSheetEntry {
+  label: string // menu label
+  placement?: string
+  code: QrCode
+}
+
+export interface QrSheetContext {
+  brandName: string
+  storeName: string
+  logo: BrandLogo | null
+  entries: QrSheetEntry[]
+}
+
+// Modules of light margin around the code required by the spec
+export const QUIET_ZONE = 4
+
+// Logo plate width as a share of the code width
+export const LOGO_SHARE = 0.22
+
+// Error correction codewords per block and number of blocks, by level and version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+}
+
+const ERROR_CORRECTION_BLOCKS: Record<ErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+}
+
+// Level indicator in the format information
+const FORMAT_BITS: Record<ErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Data modules in a symbol (everything but function patterns)
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function dataCodewords(version: number, level: ErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version]
+}
+
+// GF(256) multiplication modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+/**
+ * Error correction codewords for a block of data codewords
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree)
+  const result = new Array<number>(degree).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split data into blocks, add error correction and interleave
+function addErrorCorrection(data: number[], version: number, level: ErrorCorrection): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - rawCodewords % blockCount
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1)
+    const block = data.slice(k, k + length)
+    k += length
+    const ecc = reedSolomonRemainder(block, eccLength)
+    if (i < shortBlocks) block.push(0) // placeholder, skipped when interleaving
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 17 - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly reserved: boolean[][]
+
+  constructor(readonly version: number, readonly level: ErrorCorrection) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.drawFunctionPatterns()
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.reserved[y][x] = true
+  }
+
+  private drawFunctionPatterns(): void {
+    const size = this.size
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0)
+      this.set(i, 6, i % 2 === 0)
+    }
+    // Finder patterns with separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && x < size && y >= 0 && y < size) this.set(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+    // Alignment patterns, except where they would overlap the finders
+    const positions = alignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+    // Reserve format areas (drawn for real once the mask is chosen)
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.level] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+    const size = this.size
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i))
+    this.set(8, 7, bit(6))
+    this.set(8, 8, bit(7))
+    this.set(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(i))
+    this.set(8, size - 8, true) // always dark
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.set(a, b, dark)
+      this.set(b, a, dark)
+    }
+  }
+
+  // Place codewords in the zigzag order, two columns at a time from the right
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.reserved[y][x]) continue
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = (x * y) % 2 + (x * y) % 3 === 0; break
+          case 6: invert = ((x * y) % 2 + (x * y) % 3) % 2 === 0; break
+          default: invert = ((x + y) % 2 + (x * y) % 3) % 2 === 0
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  /**
+   * Mask penalty: runs of five or more, 2x2 blocks and dark/light imbalance
+   * (the finder-lookalike rule is left out; it only breaks ties)
+   */
+  penalty(): number {
+    const size = this.size
+    let score = 0
+    for (let a = 0; a < size; a++) {
+      let rowRun = 1
+      let columnRun = 1
+      for (let b = 1; b < size; b++) {
+        rowRun = this.modules[a][b] === this.modules[a][b - 1] ? rowRun + 1 : 1
+        if (rowRun === 5) score += 3
+        else if (rowRun > 5) score++
+        columnRun = this.modules[b][a] === this.modules[b - 1][a] ? columnRun + 1 : 1
+        if (columnRun === 5) score += 3
+        else if (columnRun > 5) score++
+      }
+    }
+    let dark = 0
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (this.modules[y][x]) dark++
+        if (
+          x + 1 < size && y + 1 < size &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          score += 3
+        }
+      }
+    }
+    const total = size * size
+    score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10
+    return score
+  }
+}
+
+/**
+ * Encode text (UTF-8, byte mode) in the smallest version that fits
+ */
+export function encodeQr(text: string, level: ErrorCorrection = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16
+    if (4 + countBits + bytes.length * 8 <= dataCodewords(version, level) * 8) break
+  }
+  if (version > 40) throw new Error('Text too long for a QR code')
+
+  // Mode indicator, length, data, terminator, then pad bytes
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  const capacity = dataCodewords(version, level) * 8
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+
+  const matrix = new QrMatrix(version, level)
+  matrix.drawCodewords(addErrorCorrection(codewords, version, level))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask)
+    const penalty = matrix.penalty()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask) // masks are their own inverse
+  }
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+
+  return { size: matrix.size, modules: matrix.modules }
+}
+
+/**
+ * Public URL a store menu's QR code points at, with tracking parameters
+ */
+export function menuPublicUrl(
+  env: Env,
+  origin: string,
+  brand: string,
+  store: string,
+  menu: string,
+  tracking: QrTracking = {}
+): string {
+  const base = env.LOOKBOOK_URL_TEMPLATE
+    ? env.LOOKBOOK_URL_TEMPLATE
+        .replace('{brand}', encodeURIComponent(brand))
+        .replace('{store}', encodeURIComponent(store))
+        .replace('{menu}', encodeURIComponent(menu))
+    : `${origin}/menu/${brand}/${store}/${menu}`
+
+  const url = new URL(base)
+  url.searchParams.set('utm_source', 'qr')
+  url.searchParams.set('utm_medium', 'print')
+  url.searchParams.set('utm_campaign', `${store}-${menu}`)
+  if (tracking.placement) url.searchParams.set('utm_content', tracking.placement)
+  return url.toString()
+}
+
+/**
+ * Side of the logo plate in modules (odd, so it centers on the code)
+ */
+export function logoPlateModules(code: QrCode): number {
+  const modules = Math.floor(code.size * LOGO_SHARE)
+  return modules % 2 === 0 ? modules + 1 : modules
+}
+
+function base64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function qrSvg(code: QrCode, logo: BrandLogo | null = null): string {
+  const extent = code.size + QUIET_ZONE * 2
+  let path = ''
+  code.modules.forEach((row, y) => {
+    for (let x = 0; x < code.size; x++) {
+      if (!row[x]) continue
+      let run = 1
+      while (x + run < code.size && row[x + run]) run++
+      path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h${run}v1h-${run}z`
+      x += run - 1
+    }
+  })
+
+  let logoMarkup = ''
+  if (logo) {
+    const plate = logoPlateModules(code)
+    const offset = QUIET_ZONE + (code.size - plate) / 2
+    const inset = plate * 0.1
+    logoMarkup = `<rect x="${offset}" y="${offset}" width="${plate}" height="${plate}" fill="#fff"/>`
+      + `<image x="${offset + inset}" y="${offset + inset}" width="${plate - inset * 2}" height="${plate - inset * 2}" preserveAspectRatio="xMidYMid meet" href="data:${logo.contentType};base64,${base64(logo.data)}"/>`
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">`
+    + `<rect width="${extent}" height="${extent}" fill="#fff"/><path d="${path}" fill="#000"/>${logoMarkup}</svg>`
+}
+
+// Draw an image into a square box (contain, box-filtered), blending onto white
+function drawLogo(target: Uint8Array, width: number, logo: RgbaImage, left: number, top: number, box: number): void {
+  const scale = Math.max(logo.width, logo.height) / box
+  const drawWidth = Math.round(logo.width / scale)
+  const drawHeight = Math.round(logo.height / scale)
+  const x0 = left + Math.floor((box - drawWidth) / 2)
+  const y0 = top + Math.floor((box - drawHeight) / 2)
+
+  for (let y = 0; y < drawHeight; y++) {
+    for (let x = 0; x < drawWidth; x++) {
+      const sx0 = Math.floor(x * scale)
+      const sy0 = Math.floor(y * scale)
+      const sx1 = Math.max(sx0 + 1, Math.floor((x + 1) * scale))
+      const sy1 = Math.max(sy0 + 1, Math.floor((y + 1) * scale))
+      let r = 0, g = 0, b = 0, a = 0, n = 0
+      for (let sy = sy0; sy < sy1 && sy < logo.height; sy++) {
+        for (let sx = sx0; sx < sx1 && sx < logo.width; sx++) {
+          const p = (sy * logo.width + sx) * 4
+          const alpha = logo.pixels[p + 3]
+          r += logo.pixels[p] * alpha
+          g += logo.pixels[p + 1] * alpha
+          b += logo.pixels[p + 2] * alpha
+          a += alpha
+          n++
+        }
+      }
+      if (n === 0) continue
+      const coverage = a / (n * 255)
+      const o = ((y0 + y) * width + x0 + x) * 3
+      const blend = (sum: number, background: number) =>
+        Math.round((a > 0 ? sum / a : 0) * coverage + background * (1 - coverage))
+      target[o] = blend(r, target[o])
+      target[o + 1] = blend(g, target[o + 1])
+      target[o + 2] = blend(b, target[o + 2])
+    }
+  }
+}
+
+/**
+ * Render as PNG with `scale` pixels per module (PNG logos only)
+ */
+export async function qrPng(code: QrCode, scale: number, logo: BrandLogo | null = null): Promise<Uint8Array> {
+  const width = (code.size + QUIET_ZONE * 2) * scale
+  const rgb = new Uint8Array(width * width * 3).fill(255)
+
+  code.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (!dark) return
+      for (let py = 0; py < scale; py++) {
+        const start = (((y + QUIET_ZONE) * scale + py) * width + (x + QUIET_ZONE) * scale) * 3
+        rgb.fill(0, start, start + scale * 3)
+      }
+    })
+  })
+
+  const image = logo && isPng(logo.data) ? await decodePng(logo.data) : null
+  if (image) {
+    const plate = logoPlateModules(code) * scale
+    const offset = (QUIET_ZONE * 2 + code.size) * scale / 2 - plate / 2
+    for (let y = 0; y < plate; y++) {
+      const start = ((Math.round(offset) + y) * width + Math.round(offset)) * 3
+      rgb.fill(255, start, start + plate * 3)
+    }
+    const inset = Math.round(plate * 0.1)
+    drawLogo(rgb, width, image, Math.round(offset) + inset, Math.round(offset) + inset, plate - inset * 2)
+  }
+
+  return encodePng(width, width, rgb)
+}
+
+const SHEET_MARGIN = 36
+const SHEET_HEADER = 44
+const SHEET_COLUMNS = 3
+const SHEET_ROWS = 4
+const SHEET_TEXT: PdfColor = [0.12, 0.16, 0.22]
+const SHEET_MUTED: PdfColor = [0.42, 0.45, 0.5]
+const SHEET_RULE: PdfColor = [0.85, 0.87, 0.9]
+
+// One line of text centered in a cell, cut to fit
+function centeredText(doc: PdfDocument, text: string, x: number, y: number, width: number, bold: boolean, size: number, rgb: PdfColor): void {
+  const font = bold ? 'bold' : 'regular'
+  const line = wrapText(text, font, size, width)[0] || ''
+  doc.text(line, x + (width - textWidth(line, font, size)) / 2, y, font, size, rgb)
+}
+
+function drawCode(doc: PdfDocument, code: QrCode, x: number, y: number, side: number, logo: PdfImage | null): void {
+  const module = side / (code.size + QUIET_ZONE * 2)
+  const left = x + QUIET_ZONE * module
+  const top = y + QUIET_ZONE * module
+  code.modules.forEach((row, my) => {
+    for (let mx = 0; mx < code.size; mx++) {
+      if (!row[mx]) continue
+      let run = 1
+      while (mx + run < code.size && row[mx + run]) run++
+      doc.rect(left + mx * module, top + my * module, run * module, module, [0, 0, 0])
+      mx += run - 1
+    }
+  })
+
+  if (logo) {
+    const plate = logoPlateModules(code) * module
+    const offset = (code.size * module - plate) / 2
+    const inset = plate * 0.1
+    doc.rect(left + offset, top + offset, plate, plate, [1, 1, 1])
+    doc.drawImage(logo, left + offset + inset, top + offset + inset, plate - inset * 2, plate - inset * 2)
+  }
+}
+
+/**
+ * Printable sheet of QR codes, twelve to a page with cut lines and labels
+ */
+export async function renderQrSheet(context: QrSheetContext, pageSize: PageSize): Promise<Uint8Array> {
+  const [width, height] = PAGE_SIZES[pageSize]
+  const doc = new PdfDocument(width, height)
+  const logo = context.logo ? await doc.addImage(context.logo.data) : null
+
+  const cellWidth = (width - 2 * SHEET_MARGIN) / SHEET_COLUMNS
+  const cellHeight = (height - 2 * SHEET_MARGIN - SHEET_HEADER) / SHEET_ROWS
+  const side = Math.min(cellWidth - 24, cellHeight - 44)
+  const perPage = SHEET_COLUMNS * SHEET_ROWS
+
+  context.entries.forEach((entry, index) => {
+    const slot = index % perPage
+    if (slot === 0) {
+      if (index > 0) doc.addPage()
+      doc.text(context.brandName, SHEET_MARGIN, SHEET_MARGIN + 16, 'bold', 16, SHEET_TEXT)
+      doc.text(`${context.storeName} · Scan to see the menu`, SHEET_MARGIN, SHEET_MARGIN + 32, 'regular', 10, SHEET_MUTED)
+    }
+
+    const x = SHEET_MARGIN + (slot % SHEET_COLUMNS) * cellWidth
+    const y = SHEET_MARGIN + SHEET_HEADER + Math.floor(slot / SHEET_COLUMNS) * cellHeight
+
+    // Cut lines
+    doc.rect(x, y, cellWidth, 0.5, SHEET_RULE)
+    doc.rect(x, y + cellHeight, cellWidth, 0.5, SHEET_RULE)
+    doc.rect(x, y, 0.5, cellHeight, SHEET_RULE)
+    doc.rect(x + cellWidth, y, 0.5, cellHeight + 0.5, SHEET_RULE)
+
+    drawCode(doc, entry.code, x + (cellWidth - side) / 2, y + 8, side, logo)
+    centeredText(doc, entry.label, x + 8, y + side + 22, cellWidth - 16, true, 10, SHEET_TEXT)
+    if (entry.placement) {
+      centeredText(doc, entry.placement, x + 8, y + side + 35, cellWidth - 16, false, 9, SHEET_MUTED)
+    }
+  })
+
+  return doc.save(`QR codes - ${context.storeName}`)
+}
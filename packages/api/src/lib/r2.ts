@@ -67,3 +67,42 @@ export async function existsInBucket(
     return false
   }
 }
+
+/**
+ * List the objects and sub-prefixes directly under a prefix (delimiter "/"),
+ * following R2 list cursors; startAfter skips keys up to and including it
+ */
+export async function listDirectory(
+  bucket: R2Bucket,
+  prefix: string,
+  startAfter?: string
+): Promise<{ objects: R2Object[]; prefixes: string[] }> {
+  const objects: R2Object[] = []
+  const prefixes: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const listed = await bucket.list({ prefix, delimiter: '/', cursor, startAfter: cursor ? undefined : startAfter })
+    objects.push(...listed.objects)
+    prefixes.push(...listed.delimitedPrefixes)
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+
+  return { objects, prefixes }
+}
+
+/**
+ * List every object under a prefix, following R2 list cursors
+ */
+export async function listAllObjects(bucket: R2Bucket, prefix: string): Promise<R2Object[]> {
+  const objects: R2Object[] = []
+  let cursor: string | undefined
+
+  do {
+    const listed = await bucket.list({ prefix, cursor })
+    objects.push(...listed.objects)
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+
+  return objects
+}
@@ -0,0 +1,136 @@
+/**
+ * Item id reconciliation for full menu uploads
+ *
+ * Spreadsheet exports often regenerate or drop item ids, which breaks version
+ * history and image association. Incoming items are matched to the live menu:
+ * 1. by id
+ * 2. by normalized name + category
+ * Unmatched items keep their id if it is free, otherwise get a new stable id.
+ */
+
+import type { MenuData, MenuItem } from './menu'
+
+export interface ReconciliationReport {
+  matched: { id: string; name: string; matchedBy: 'id' | 'name'; incomingId?: string }[]
+  renamed: { id: string; before: string; after: string }[]
+  new: { id: string; name: string; incomingId?: string }[]
+  dropped: { id: string; name: string }[]
+}
+
+type IncomingItem = Record<string, unknown>
+
+function isIncomingItem(value: unknown): value is IncomingItem {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Case, accents and punctuation don't matter: "Crème Brûlée" matches "creme brulee"
+function normalize(value: unknown): string {
+  return typeof value === 'string'
+    ? value.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+    : ''
+}
+
+function matchKey(item: { name?: unknown; category?: unknown }): string | null {
+  const name = normalize(item.name)
+  return name ? `${name}|${normalize(item.category)}` : null
+}
+
+function incomingIdOf(item: IncomingItem): string | undefined {
+  return typeof item.id === 'string' && item.id !== '' ? item.id : undefined
+}
+
+/**
+ * Generate a new item id (not derived from the name, so renames keep it)
+ */
+function generateItemId(): string {
+  const bytes = new Uint8Array(6)
+  crypto.getRandomValues(bytes)
+  return 'item_' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Reconcile incoming item ids against the live menu
+ * Non-object items are passed through untouched for validation to report.
+ */
+export function reconcileItems(
+  live: MenuData | null,
+  incoming: { meta?: unknown; items: unknown[] }
+): { menu: MenuData; report: ReconciliationReport } {
+  const liveItems = live?.items || []
+  const liveById = new Map(liveItems.map(item => [item.id, item]))
+  const liveByKey = new Map<string, MenuItem[]>()
+  for (const item of liveItems) {
+    const key = matchKey(item)
+    if (!key) continue
+    if (!liveByKey.has(key)) liveByKey.set(key, [])
+    liveByKey.get(key)!.push(item)
+  }
+
+  const report: ReconciliationReport = { matched: [], renamed: [], new: [], dropped: [] }
+  const claimed = new Set<string>()
+  const items = incoming.items.slice()
+  const unmatchedById: number[] = []
+
+  // Pass 1: match by id
+  items.forEach((item, index) => {
+    if (!isIncomingItem(item)) return
+    const id = incomingIdOf(item)
+    const liveItem = id ? liveById.get(id) : undefined
+
+    if (id && liveItem && !claimed.has(id)) {
+      claimed.add(id)
+      const name = String(item.name ?? '')
+      if (normalize(name) !== normalize(liveItem.name)) {
+        report.renamed.push({ id, before: liveItem.name, after: name })
+      } else {
+        report.matched.push({ id, name, matchedBy: 'id' })
+      }
+    } else {
+      unmatchedById.push(index)
+    }
+  })
+
+  // Pass 2: match by normalized name + category
+  const unmatched: number[] = []
+  for (const index of unmatchedById) {
+    const item = items[index] as IncomingItem
+    const key = matchKey(item)
+    const liveItem = key ? liveByKey.get(key)?.find(candidate => !claimed.has(candidate.id)) : undefined
+
+    if (liveItem) {
+      claimed.add(liveItem.id)
+      items[index] = { ...item, id: liveItem.id }
+      report.matched.push({
+        id: liveItem.id,
+        name: String(item.name ?? ''),
+        matchedBy: 'name',
+        incomingId: incomingIdOf(item)
+      })
+    } else {
+      unmatched.push(index)
+    }
+  }
+
+  // Pass 3: genuinely new items keep a free incoming id or get a new one
+  const usedIds = new Set([...liveById.keys(), ...claimed])
+  for (const index of unmatched) {
+    const item = items[index] as IncomingItem
+    const incomingId = incomingIdOf(item)
+
+    let id = incomingId && !usedIds.has(incomingId) ? incomingId : generateItemId()
+    while (usedIds.has(id)) id = generateItemId()
+    usedIds.add(id)
+
+    items[index] = { ...item, id }
+    report.new.push({ id, name: String(item.name ?? ''), incomingId })
+  }
+
+  report.dropped = liveItems
+    .filter(item => !claimed.has(item.id))
+    .map(item => ({ id: item.id, name: item.name }))
+
+  return {
+    menu: { ...incoming, items } as MenuData,
+    report
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Brand registry helpers
+ *
+ * The registry is served from the public bucket at {brand}/registry_{brand}.json
+ * Brands deployed before that key was used have {brand}/registry.json instead;
+ * deploy reads it as a fallback and moves it on the next registry write.
+ */
+
+import type { Env } from '../index'
+import { fetchFromBucket } from './r2'
+import { DEFAULT_LOCALE, LOCALE_PATTERN } from '@lookbook/menu-schema'
+
+export function brandRegistryKey(brand: string): string {
+  return `${brand}/registry_${brand}.json`
+}
+
+export function legacyBrandRegistryKey(brand: string): string {
+  return `${brand}/registry.json`
+}
+
+/**
+ * Get the brand registry object, falling back to the legacy key
+ * Returns the key it was read from with the object (null if neither exists)
+ */
+export async function getBrandRegistryObject(
+  env: Env,
+  brand: string
+): Promise<{ key: string; object: R2ObjectBody } | null> {
+  for (const key of [brandRegistryKey(brand), legacyBrandRegistryKey(brand)]) {
+    const object = await env.MENU_BUCKET.get(key)
+    if (object) return { key, object }
+  }
+  return null
+}
+
+/**
+ * Locales the brand publishes menus in; the first is the default
+ * Falls back to [DEFAULT_LOCALE] when the registry has no valid list.
+ */
+export async function readBrandLocales(env: Env, brand: string): Promise<string[]> {
+  const registry = await fetchFromBucket(env, brandRegistryKey(brand)) as { locales?: unknown } | null
+  const locales = registry?.locales
+  if (
+    Array.isArray(locales) &&
+    locales.length > 0 &&
+    locales.every(locale => typeof locale === 'string' && LOCALE_PATTERN.test(locale))
+  ) {
+    return locales
+  }
+  return [DEFAULT_LOCALE]
+}
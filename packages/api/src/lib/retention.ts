@@ -0,0 +1,222 @@
+/**
+ * Version retention library
+ *
+ * Prunes manifest entries and snapshot objects under /_versions/ according
+ * to a retention policy. A version is kept when any rule matches:
+ * - it is the manifest's current version
+ * - it is among the newest `keepLast` entries
+ * - it is the newest version of its UTC day within the last `keepDailyDays` days
+ * - its type is listed in `keepTypes`
+ *
+ * Snapshots not kept (including orphans no longer in the manifest) are deleted,
+ * or moved to /_archive/versions/... in archive mode. Reports are written to
+ * /_reports/retention/{timestamp}.json.
+ */
+
+import type { Env } from '../index'
+import type { Manifest, VersionEntry, VersionType } from './versioning'
+import { listAllObjects } from './r2'
+
+export interface RetentionPolicy {
+  keepLast: number
+  keepDailyDays: number
+  keepTypes: VersionType[]
+  mode: 'delete' | 'archive'
+}
+
+export interface MenuRetentionResult {
+  brand: string
+  store: string
+  menu: string
+  kept: number
+  removed: string[]
+  bytesRemoved: number
+  skipped?: string
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  policy: RetentionPolicy
+  startedAt: string
+  finishedAt: string
+  menus: MenuRetentionResult[]
+  totals: { menus: number; removed: number; bytesRemoved: number }
+}
+
+const DEFAULT_POLICY: RetentionPolicy = {
+  keepLast: 50,
+  keepDailyDays: 30,
+  keepTypes: ['upload', 'restore'],
+  mode: 'delete'
+}
+
+// Snapshots younger than this may not be in the manifest yet (writeVersion
+// writes the snapshot before the manifest), so they are never treated as orphans
+const ORPHAN_GRACE_MS = 60 * 60 * 1000
+
+const SNAPSHOT_KEY_PATTERN = /^_versions\/([^/]+)\/([^/]+?)__([^/]+)\/([^/]+)\.json$/
+
+function parseIntVar(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+/**
+ * Build the retention policy from RETENTION_* environment variables
+ */
+export function getRetentionPolicy(env: Env): RetentionPolicy {
+  return {
+    keepLast: parseIntVar(env.RETENTION_KEEP_LAST, DEFAULT_POLICY.keepLast),
+    keepDailyDays: parseIntVar(env.RETENTION_KEEP_DAILY_DAYS, DEFAULT_POLICY.keepDailyDays),
+    keepTypes: env.RETENTION_KEEP_TYPES !== undefined
+      ? env.RETENTION_KEEP_TYPES.split(',').map(t => t.trim()).filter(Boolean) as VersionType[]
+      : DEFAULT_POLICY.keepTypes,
+    mode: env.RETENTION_MODE === 'archive' ? 'archive' : DEFAULT_POLICY.mode
+  }
+}
+
+/**
+ * Decide which manifest entries to keep (manifest is newest first)
+ */
+export function selectRetainedVersions(
+  manifest: Manifest,
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Set<string> {
+  const keep = new Set<string>()
+  if (manifest.current) keep.add(manifest.current)
+
+  const dailyCutoff = now.getTime() - policy.keepDailyDays * 24 * 60 * 60 * 1000
+  const daysSeen = new Set<string>()
+
+  manifest.versions.forEach((entry: VersionEntry, index) => {
+    if (index < policy.keepLast) keep.add(entry.id)
+    if (policy.keepTypes.includes(entry.type)) keep.add(entry.id)
+
+    const time = new Date(entry.timestamp).getTime()
+    const day = entry.timestamp.split('T')[0]
+    if (time >= dailyCutoff && !daysSeen.has(day)) {
+      daysSeen.add(day)
+      keep.add(entry.id)
+    }
+  })
+
+  return keep
+}
+
+/**
+ * Apply the retention policy to every versioned menu
+ */
+export async function runRetention(
+  env: Env,
+  options: { dryRun: boolean; policy?: RetentionPolicy }
+): Promise<RetentionReport> {
+  const policy = options.policy || getRetentionPolicy(env)
+  const startedAt = new Date()
+
+  // Group snapshot objects by menu directory
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, '_versions/')
+  const menus = new Map<string, R2Object[]>()
+  for (const object of objects) {
+    const match = object.key.match(SNAPSHOT_KEY_PATTERN)
+    if (!match) continue
+    const dir = object.key.slice(0, object.key.lastIndexOf('/'))
+    if (!menus.has(dir)) menus.set(dir, [])
+    menus.get(dir)!.push(object)
+  }
+
+  const results: MenuRetentionResult[] = []
+
+  for (const [dir, dirObjects] of menus) {
+    const [, brand, store, menu] = dirObjects[0].key.match(SNAPSHOT_KEY_PATTERN)!
+    const result: MenuRetentionResult = { brand, store, menu, kept: 0, removed: [], bytesRemoved: 0 }
+    results.push(result)
+
+    const manifestKey = `${dir}/manifest.json`
+    const manifestObject = await env.INTERNAL_BUCKET.get(manifestKey)
+    if (!manifestObject) {
+      // Without a manifest there is no way to tell which snapshots matter
+      result.skipped = 'missing manifest'
+      continue
+    }
+
+    let manifest: Manifest
+    try {
+      manifest = await manifestObject.json()
+    } catch {
+      result.skipped = 'corrupted manifest'
+      continue
+    }
+
+    const keep = selectRetainedVersions(manifest, policy, startedAt)
+    const inManifest = new Set(manifest.versions.map(v => v.id))
+
+    const toRemove = dirObjects.filter(object => {
+      const versionId = object.key.match(SNAPSHOT_KEY_PATTERN)![4]
+      if (versionId === 'manifest' || keep.has(versionId)) return false
+      if (!inManifest.has(versionId) && startedAt.getTime() - object.uploaded.getTime() < ORPHAN_GRACE_MS) {
+        return false
+      }
+      return true
+    })
+
+    result.kept = manifest.versions.filter(v => keep.has(v.id)).length
+    result.removed = toRemove.map(o => o.key.match(SNAPSHOT_KEY_PATTERN)![4])
+    result.bytesRemoved = toRemove.reduce((acc, o) => acc + o.size, 0)
+
+    if (options.dryRun || toRemove.length === 0) continue
+
+    // Prune the manifest first, only if nobody wrote a version meanwhile
+    const prunedManifest: Manifest = {
+      ...manifest,
+      versions: manifest.versions.filter(v => keep.has(v.id))
+    }
+    const written = await env.INTERNAL_BUCKET.put(manifestKey, JSON.stringify(prunedManifest, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: manifestObject.etag }
+    })
+    if (!written) {
+      result.skipped = 'manifest changed during run'
+      result.removed = []
+      result.bytesRemoved = 0
+      continue
+    }
+
+    if (policy.mode === 'archive') {
+      for (const object of toRemove) {
+        const snapshot = await env.INTERNAL_BUCKET.get(object.key)
+        if (!snapshot) continue
+        await env.INTERNAL_BUCKET.put(`_archive/${object.key.slice(1)}`, await snapshot.arrayBuffer(), {
+          httpMetadata: { contentType: 'application/json' }
+        })
+      }
+    }
+
+    const keys = toRemove.map(o => o.key)
+    for (let i = 0; i < keys.length; i += 1000) {
+      await env.INTERNAL_BUCKET.delete(keys.slice(i, i + 1000))
+    }
+  }
+
+  const report: RetentionReport = {
+    dryRun: options.dryRun,
+    policy,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    menus: results.filter(r => r.removed.length > 0 || r.skipped),
+    totals: {
+      menus: results.length,
+      removed: results.reduce((acc, r) => acc + r.removed.length, 0),
+      bytesRemoved: results.reduce((acc, r) => acc + r.bytesRemoved, 0)
+    }
+  }
+
+  const reportId = report.startedAt.replace(/[:.]/g, '-')
+  await env.INTERNAL_BUCKET.put(
+    `_reports/retention/${reportId}${options.dryRun ? '-dry-run' : ''}.json`,
+    JSON.stringify(report, null, 2),
+    { httpMetadata: { contentType: 'application/json' } }
+  )
+
+  return report
+}
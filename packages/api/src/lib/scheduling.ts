@@ -0,0 +1,208 @@
+/**
+ * Scheduled publishing library
+ *
+ * A scheduled publish holds a full menu snapshot outside the version history
+ * until it is due:
+ *   /_scheduled/{brand}/{store}__{menu}/{id}.json
+ *
+ * The live {store}__{menu}.json is untouched until the cron handler promotes
+ * the entry through writeVersion/appendAuditLog (scheduled type) and deletes it.
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import type { MenuData } from './menu'
+import { writeLiveMenu, readLiveMenu } from './menu'
+import { writeVersion } from './versioning'
+import { appendAuditLog } from './audit'
+import { changedItemIds } from './diff'
+import { listAllObjects } from './r2'
+
+export interface ScheduledPublish {
+  id: string
+  publishAt: string
+  createdAt: string
+  keyId: string
+  keyLabel?: string
+  itemCount: number
+}
+
+interface ScheduledObject extends ScheduledPublish {
+  data: MenuData
+}
+
+const SCHEDULED_KEY_PATTERN = /^_scheduled\/([^/]+)\/([^/]+?)__([^/]+)\/([^/]+)\.json$/
+
+function scheduledPrefix(brand: string, store: string, menu: string): string {
+  return `_scheduled/${brand}/${store}__${menu}/`
+}
+
+function timestampId(timestamp: string): string {
+  return timestamp.replace(/[:.]/g, '-')
+}
+
+/**
+ * Generate an id prefixed with the publish time, so ids sort by publish time
+ * and the cron can find due entries from keys alone
+ */
+function generateScheduleId(publishAt: string): string {
+  const bytes = new Uint8Array(4)
+  crypto.getRandomValues(bytes)
+  const suffix = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+  return `${timestampId(publishAt)}-${suffix}`
+}
+
+/**
+ * Store a menu snapshot to be published at publishAt (ISO timestamp)
+ */
+export async function createScheduledPublish(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  data: MenuData,
+  publishAt: string,
+  auth: AuthContext
+): Promise<ScheduledPublish> {
+  const entry: ScheduledPublish = {
+    id: generateScheduleId(publishAt),
+    publishAt,
+    createdAt: new Date().toISOString(),
+    keyId: auth.keyId,
+    keyLabel: auth.keyLabel,
+    itemCount: data.items.length
+  }
+
+  const object: ScheduledObject = { ...entry, data }
+  await env.INTERNAL_BUCKET.put(
+    `${scheduledPrefix(brand, store, menu)}${entry.id}.json`,
+    JSON.stringify(object, null, 2),
+    { httpMetadata: { contentType: 'application/json' } }
+  )
+
+  return entry
+}
+
+/**
+ * List pending publishes for a menu, soonest first
+ */
+export async function listScheduledPublishes(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<ScheduledPublish[]> {
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, scheduledPrefix(brand, store, menu))
+
+  const entries = await Promise.all(objects.map(async ({ key }) => {
+    const object = await env.INTERNAL_BUCKET.get(key)
+    if (!object) return null
+    try {
+      const { data: _data, ...entry } = await object.json<ScheduledObject>()
+      return entry
+    } catch {
+      return null
+    }
+  }))
+
+  return entries
+    .filter((entry): entry is ScheduledPublish => entry !== null)
+    .sort((a, b) => a.publishAt.localeCompare(b.publishAt))
+}
+
+/**
+ * Cancel a pending publish. Returns false if it does not exist
+ * (already published or cancelled).
+ */
+export async function cancelScheduledPublish(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  id: string
+): Promise<boolean> {
+  const key = `${scheduledPrefix(brand, store, menu)}${id}.json`
+  const existing = await env.INTERNAL_BUCKET.head(key)
+  if (!existing) return false
+
+  await env.INTERNAL_BUCKET.delete(key)
+  return true
+}
+
+/**
+ * Snapshots of every pending publish for a brand
+ */
+export async function readBrandScheduledMenus(
+  env: Env,
+  brand: string
+): Promise<{ store: string; menu: string; id: string; data: MenuData }[]> {
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, `_scheduled/${brand}/`)
+
+  const entries = await Promise.all(objects.map(async ({ key }) => {
+    const match = key.match(SCHEDULED_KEY_PATTERN)
+    const object = match ? await env.INTERNAL_BUCKET.get(key) : null
+    if (!match || !object) return null
+    try {
+      const scheduled = await object.json<ScheduledObject>()
+      return { store: match[2], menu: match[3], id: scheduled.id, data: scheduled.data }
+    } catch {
+      return null
+    }
+  }))
+
+  return entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+}
+
+/**
+ * Promote every scheduled publish whose publishAt has passed
+ * Entries for the same menu are applied in publish order.
+ */
+export async function publishDueSchedules(
+  env: Env,
+  now: Date = new Date()
+): Promise<{ published: number; failed: number }> {
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, '_scheduled/')
+  const nowId = timestampId(now.toISOString())
+
+  const due = objects
+    .map(object => object.key.match(SCHEDULED_KEY_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null && match[4].slice(0, nowId.length) <= nowId)
+    .sort((a, b) => a[4].localeCompare(b[4]))
+
+  let published = 0
+  let failed = 0
+
+  for (const [key, brand, store, menu] of due) {
+    try {
+      const object = await env.INTERNAL_BUCKET.get(key)
+      if (!object) continue // Cancelled since listing
+
+      const scheduled = await object.json<ScheduledObject>()
+      const previous = await readLiveMenu(env, brand, store, menu)
+
+      const versionId = await writeVersion(env, brand, store, menu, scheduled.data, 'scheduled', scheduled.keyId, {
+        scheduledId: scheduled.id
+      })
+
+      await appendAuditLog(env, brand, store, menu, {
+        type: 'scheduled',
+        versionId,
+        keyId: scheduled.keyId,
+        keyLabel: scheduled.keyLabel,
+        itemCount: scheduled.data.items.length,
+        changedItemIds: changedItemIds(previous, scheduled.data)
+      })
+
+      await writeLiveMenu(env, brand, store, menu, scheduled.data, versionId)
+      await env.INTERNAL_BUCKET.delete(key)
+
+      console.log(`[schedule] Published ${brand}/${store}/${menu} (${scheduled.id}) as ${versionId}`)
+      published++
+    } catch (error) {
+      console.error(`[schedule] Failed to publish ${key}:`, error)
+      failed++
+    }
+  }
+
+  return { published, failed }
+}
@@ -0,0 +1,212 @@
+/**
+ * Search-engine rendering of live menus
+ *
+ * Renders a menu as standalone HTML with embedded schema.org JSON-LD:
+ *   Restaurant -> hasMenu: Menu -> hasMenuSection: MenuSection -> hasMenuItem: MenuItem
+ * Items carry Offers (one per variant), suitableForDiet for dietary tags that
+ * map to a schema.org RestrictedDiet, and absolute image URLs.
+ *
+ * Items with `available: false` are left out; sold-out items are shown with
+ * an out-of-stock offer.
+ */
+
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_MONEY_LOCALE,
+  formatMoney,
+  moneyInputValue,
+  toMoney,
+  type PriceValue,
+  type StoreConfig,
+  type TagVocabulary
+} from '@lookbook/menu-schema'
+import { menuSections, type MenuData, type MenuItem } from './menu'
+
+// Dietary tag ids with a schema.org RestrictedDiet equivalent
+const RESTRICTED_DIETS: Record<string, string> = {
+  'vegan': 'https://schema.org/VeganDiet',
+  'vegetarian': 'https://schema.org/VegetarianDiet',
+  'gluten-free': 'https://schema.org/GlutenFreeDiet',
+  'halal': 'https://schema.org/HalalDiet',
+  'kosher': 'https://schema.org/KosherDiet',
+  'hindu': 'https://schema.org/HinduDiet',
+  'diabetic': 'https://schema.org/DiabeticDiet',
+  'low-calorie': 'https://schema.org/LowCalorieDiet',
+  'low-fat': 'https://schema.org/LowFatDiet',
+  'low-lactose': 'https://schema.org/LowLactoseDiet',
+  'low-salt': 'https://schema.org/LowSaltDiet'
+}
+
+export interface RenderContext {
+  brandName: string
+  store: StoreConfig
+  menuLabel: string
+  menu: MenuData // catalog-resolved and localized
+  lang: string
+  locales: string[] // brand locales, default first
+  tags: TagVocabulary
+  imageBaseUrl: string // {R2_PUBLIC_URL}/{brand}/images
+  canonicalUrl: string // without ?lang
+}
+
+type JsonLd = Record<string, unknown>
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function currencyOf(store: StoreConfig): string {
+  return store.currency || DEFAULT_CURRENCY
+}
+
+function offer(price: PriceValue, item: MenuItem, currency: string, name?: string): JsonLd | null {
+  const money = toMoney(price, currency)
+  if (!money) return null
+  return {
+    '@type': 'Offer',
+    ...(name ? { name } : {}),
+    price: moneyInputValue(money),
+    priceCurrency: money.currency,
+    availability: item.soldOut ? 'https://schema.org/OutOfStock' : 'https://schema.org/InStock'
+  }
+}
+
+function itemJsonLd(item: MenuItem, context: RenderContext): JsonLd {
+  const currency = currencyOf(context.store)
+  const offers = item.variants?.length
+    ? item.variants.map(variant => offer(variant.price, item, currency, variant.label))
+    : [item.price !== undefined ? offer(item.price, item, currency) : null]
+  const diets = (item.dietary || []).map(tag => RESTRICTED_DIETS[tag]).filter(Boolean)
+
+  return {
+    '@type': 'MenuItem',
+    name: item.name,
+    ...(item.description ? { description: item.description } : {}),
+    ...(item.image ? { image: `${context.imageBaseUrl}/${encodeURIComponent(item.image)}` } : {}),
+    ...(offers.some(Boolean) ? { offers: offers.filter(Boolean) } : {}),
+    ...(diets.length > 0 ? { suitableForDiet: diets } : {})
+  }
+}
+
+export function buildMenuJsonLd(context: RenderContext): JsonLd {
+  const { store, brandName, menuLabel, lang } = context
+  const address = store.address
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Restaurant',
+    name: store.name,
+    brand: { '@type': 'Brand', name: brandName },
+    url: context.canonicalUrl,
+    ...(address ? {
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: address.street,
+        addressLocality: address.city,
+        ...(address.region ? { addressRegion: address.region } : {}),
+        ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+        ...(address.country ? { addressCountry: address.country } : {})
+      }
+    } : {}),
+    ...(store.telephone ? { telephone: store.telephone } : {}),
+    hasMenu: {
+      '@type': 'Menu',
+      name: menuLabel,
+      inLanguage: lang,
+      hasMenuSection: menuSections(context.menu).map(([category, items]) => ({
+        '@type': 'MenuSection',
+        name: category,
+        hasMenuItem: items.map(item => itemJsonLd(item, context))
+      }))
+    }
+  }
+}
+
+/**
+ * JSON for a <script> element ("</script>" inside strings must not end it)
+ */
+function scriptJson(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
+
+function renderPrice(item: MenuItem, context: RenderContext): string {
+  const locale = context.store.locale || DEFAULT_MONEY_LOCALE
+  const currency = currencyOf(context.store)
+  if (item.variants?.length) {
+    return item.variants
+      .map(variant => `${escapeHtml(variant.label)} ${escapeHtml(formatMoney(variant.price, locale, currency))}`)
+      .join(' · ')
+  }
+  return escapeHtml(formatMoney(item.price, locale, currency))
+}
+
+function renderItem(item: MenuItem, context: RenderContext): string {
+  const labels = new Map(context.tags.dietary.map(tag => [tag.id, tag.label]))
+  const dietary = (item.dietary || []).map(tag => labels.get(tag) || tag)
+
+  return `<li class="item${item.soldOut ? ' sold-out' : ''}">
+${item.image ? `<img src="${escapeHtml(`${context.imageBaseUrl}/${encodeURIComponent(item.image)}`)}" alt="${escapeHtml(item.name)}" loading="lazy" width="96" height="96">` : ''}
+<div>
+<h3>${escapeHtml(item.name)}${item.soldOut ? ' <small>(sold out)</small>' : ''}</h3>
+<p class="price">${renderPrice(item, context)}</p>
+${item.description ? `<p>${escapeHtml(item.description)}</p>` : ''}
+${dietary.length > 0 ? `<p class="tags">${dietary.map(escapeHtml).join(' · ')}</p>` : ''}
+</div>
+</li>`
+}
+
+export function renderMenuHtml(context: RenderContext): string {
+  const { store, menuLabel, lang, locales, canonicalUrl } = context
+  const title = `${menuLabel} | ${store.name}`
+  const address = store.address
+  const localeUrl = (locale: string) => locale === locales[0] ? canonicalUrl : `${canonicalUrl}?lang=${encodeURIComponent(locale)}`
+  const sections = menuSections(context.menu)
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<meta name="description" content="${escapeHtml(`${menuLabel} menu at ${store.name}: ${sections.map(([category]) => category).join(', ')}`)}">
+<link rel="canonical" href="${escapeHtml(localeUrl(lang))}">
+${locales.length > 1 ? locales.map(locale => `<link rel="alternate" hreflang="${escapeHtml(locale)}" href="${escapeHtml(localeUrl(locale))}">`).join('\n') : ''}
+<script type="application/ld+json">${scriptJson(buildMenuJsonLd(context))}</script>
+<style>
+body{font-family:system-ui,sans-serif;max-width:720px;margin:0 auto;padding:1rem;color:#1f2937}
+h2{border-bottom:1px solid #e5e7eb;padding-bottom:.25rem}
+ul{list-style:none;padding:0}
+.item{display:flex;gap:1rem;margin-bottom:1rem}
+.item img{object-fit:cover;border-radius:8px}
+.item h3{margin:0;font-size:1rem}
+.item p{margin:.25rem 0}
+.price{font-weight:600}
+.tags{font-size:.875rem;color:#6b7280}
+.sold-out{opacity:.6}
+.menu-name{font-size:1.25rem;color:#6b7280}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(store.name)}</h1>
+<p class="menu-name">${escapeHtml(menuLabel)}</p>
+${address ? `<address>${escapeHtml([address.street, address.city, address.region, address.postalCode].filter(Boolean).join(', '))}</address>` : ''}
+${store.telephone ? `<p><a href="tel:${escapeHtml(store.telephone.replace(/\s+/g, ''))}">${escapeHtml(store.telephone)}</a></p>` : ''}
+</header>
+<main>
+${sections.map(([category, items]) => `<section>
+<h2>${escapeHtml(category)}</h2>
+<ul>
+${items.map(item => renderItem(item, context)).join('\n')}
+</ul>
+</section>`).join('\n')}
+</main>
+</body>
+</html>
+`
+}
@@ -0,0 +1,184 @@
+/**
+ * Sold-out ("86") toggling library
+ *
+ * Flipping MenuItem.soldOut rewrites the live menu in place (a conditional
+ * put, see updateLiveMenu) without a version snapshot; a compact 'sold-out'
+ * audit event records the change. Menu saves carry the live sold-out state
+ * forward (see writeLiveMenu), so editors holding an older copy do not
+ * bring an 86'd item back. The item is also updated in the menu's draft,
+ * if any.
+ *
+ * Items marked with an auto-restore time are indexed in the internal bucket:
+ *   /_soldout/{brand}/{store}__{menu}/{encoded itemId}.json
+ * The item id is percent-encoded, so ids containing "/" fit in one segment.
+ * and restored by the cron handler once soldOutUntil has passed.
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import type { MenuData, MenuItem } from './menu'
+import { updateLiveMenu } from './menu'
+import { readDraft, draftKey } from './drafts'
+import { appendAuditLog } from './audit'
+import { listAllObjects } from './r2'
+
+interface RestoreEntry {
+  until: string
+  keyId: string
+  keyLabel?: string
+}
+
+const RESTORE_KEY_PATTERN = /^_soldout\/([^/]+)\/([^/]+?)__([^/]+)\/([^/]+)\.json$/
+
+function restoreKey(brand: string, store: string, menu: string, itemId: string): string {
+  return `_soldout/${brand}/${store}__${menu}/${encodeURIComponent(itemId)}.json`
+}
+
+// Item id from a restore key segment (null if the escapes are malformed)
+function decodeItemId(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Set or clear an item's sold-out fields (returns a new menu)
+ */
+function withSoldOut(data: MenuData, itemId: string, soldOut: boolean, until?: string): MenuData {
+  return {
+    ...data,
+    items: data.items.map(item => {
+      if (item.id !== itemId) return item
+      const { soldOut: _soldOut, soldOutUntil: _until, ...rest } = item
+      return soldOut
+        ? { ...rest, soldOut: true, ...(until ? { soldOutUntil: until } : {}) }
+        : rest
+    })
+  }
+}
+
+/**
+ * Mirror the change into the menu's draft when the draft has the item
+ */
+async function updateDraftItem(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  itemId: string,
+  soldOut: boolean,
+  until?: string
+): Promise<void> {
+  const draft = await readDraft(env, brand, store, menu)
+  if (!draft || !draft.data.items.some(item => item.id === itemId)) return
+
+  const updated = { ...draft, data: withSoldOut(draft.data, itemId, soldOut, until) }
+  await env.INTERNAL_BUCKET.put(draftKey(brand, store, menu), JSON.stringify(updated, null, 2), {
+    httpMetadata: { contentType: 'application/json' }
+  })
+}
+
+/**
+ * Mark an item sold out (optionally until an ISO time) or available again
+ * Returns the updated item, or null if the menu or item does not exist.
+ */
+export async function setItemSoldOut(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  itemId: string,
+  soldOut: boolean,
+  until: string | undefined,
+  actor: Pick<AuthContext, 'keyId' | 'keyLabel'> & { ip?: string; userAgent?: string }
+): Promise<MenuItem | null> {
+  const updated = await updateLiveMenu(env, brand, store, menu, live =>
+    live?.items.some(item => item.id === itemId) ? withSoldOut(live, itemId, soldOut, soldOut ? until : undefined) : null
+  )
+  if (!updated) return null
+  await updateDraftItem(env, brand, store, menu, itemId, soldOut, soldOut ? until : undefined)
+
+  const key = restoreKey(brand, store, menu, itemId)
+  if (soldOut && until) {
+    const entry: RestoreEntry = { until, keyId: actor.keyId, keyLabel: actor.keyLabel }
+    await env.INTERNAL_BUCKET.put(key, JSON.stringify(entry), {
+      httpMetadata: { contentType: 'application/json' }
+    })
+  } else {
+    await env.INTERNAL_BUCKET.delete(key)
+  }
+
+  await appendAuditLog(env, brand, store, menu, {
+    ...actor,
+    type: 'sold-out',
+    itemCount: updated.items.length,
+    changedItemIds: [itemId],
+    soldOut: { itemId, soldOut, until: soldOut ? until : undefined }
+  })
+
+  return updated.items.find(item => item.id === itemId) || null
+}
+
+/**
+ * Restore every sold-out item whose auto-restore time has passed
+ * Items changed since (toggled again, or removed) are skipped.
+ */
+export async function restoreDueSoldOutItems(
+  env: Env,
+  now: Date = new Date()
+): Promise<{ restored: number; failed: number }> {
+  const objects = await listAllObjects(env.INTERNAL_BUCKET, '_soldout/')
+
+  let restored = 0
+  let failed = 0
+
+  for (const { key } of objects) {
+    try {
+      const match = key.match(RESTORE_KEY_PATTERN)
+      const itemId = match ? decodeItemId(match[4]) : null
+      if (!match || itemId === null) {
+        // Written before ids were encoded (an id with "/"); it can never match
+        console.error(`[soldout] Removing unreadable restore entry ${key}`)
+        await env.INTERNAL_BUCKET.delete(key)
+        continue
+      }
+      const [, brand, store, menu] = match
+
+      const object = await env.INTERNAL_BUCKET.get(key)
+      if (!object) continue
+
+      const entry = await object.json<RestoreEntry>()
+      if (Date.parse(entry.until) > now.getTime()) continue
+
+      const updated = await updateLiveMenu(env, brand, store, menu, live => {
+        const item = live?.items.find(candidate => candidate.id === itemId)
+        return live && item?.soldOut && item.soldOutUntil === entry.until ? withSoldOut(live, itemId, false) : null
+      })
+
+      if (updated) {
+        await updateDraftItem(env, brand, store, menu, itemId, false)
+
+        await appendAuditLog(env, brand, store, menu, {
+          type: 'sold-out',
+          keyId: entry.keyId,
+          keyLabel: entry.keyLabel,
+          itemCount: updated.items.length,
+          changedItemIds: [itemId],
+          soldOut: { itemId, soldOut: false, autoRestored: true }
+        })
+
+        console.log(`[soldout] Restored ${brand}/${store}/${menu} item ${itemId}`)
+        restored++
+      }
+
+      await env.INTERNAL_BUCKET.delete(key)
+    } catch (error) {
+      console.error(`[soldout] Failed to restore ${key}:`, error)
+      failed++
+    }
+  }
+
+  return { restored, failed }
+}
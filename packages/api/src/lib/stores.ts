@@ -0,0 +1,57 @@
+/**
+ * Store config helpers
+ *
+ * Store configs are served from the public bucket at /{brand}/{store}.json
+ */
+
+import type { Env } from '../index'
+import { fetchFromBucket } from './r2'
+import { readLiveMenu } from './menu'
+import { readDraft } from './drafts'
+import { readBrandScheduledMenus } from './scheduling'
+import { DEFAULT_CURRENCY, countMoneyPrices, isValidCurrency } from '@lookbook/menu-schema'
+
+export function storeConfigKey(brand: string, store: string): string {
+  return `${brand}/${store}.json`
+}
+
+/**
+ * Currency of the store's menu prices (DEFAULT_CURRENCY when unset or invalid)
+ */
+export async function readStoreCurrency(env: Env, brand: string, store: string): Promise<string> {
+  const config = await fetchFromBucket(env, storeConfigKey(brand, store)) as { currency?: unknown } | null
+  return storeCurrency(config)
+}
+
+/**
+ * Currency of a store config (DEFAULT_CURRENCY when unset or invalid)
+ */
+export function storeCurrency(config: { currency?: unknown } | null): string {
+  const currency = config?.currency
+  return typeof currency === 'string' && isValidCurrency(currency) ? currency : DEFAULT_CURRENCY
+}
+
+/**
+ * Menus of a store with Money prices in `currency`, in the live menu, its
+ * draft or a scheduled publish
+ */
+export async function menusPricedIn(
+  env: Env,
+  brand: string,
+  store: string,
+  menus: string[],
+  currency: string
+): Promise<string[]> {
+  const scheduled = (await readBrandScheduledMenus(env, brand)).filter(entry => entry.store === store)
+
+  const priced = await Promise.all(menus.map(async menu => {
+    const [live, draft] = await Promise.all([
+      readLiveMenu(env, brand, store, menu),
+      readDraft(env, brand, store, menu)
+    ])
+    const copies = [live, draft?.data, ...scheduled.filter(entry => entry.menu === menu).map(entry => entry.data)]
+    return copies.some(copy => copy && countMoneyPrices(copy.items, currency) > 0)
+  }))
+
+  return menus.filter((_menu, index) => priced[index])
+}
@@ -0,0 +1,33 @@
+/**
+ * Brand tag vocabulary (dietary tags and allergens)
+ *
+ * Stored in the public bucket next to the brand registry at
+ * {brand}/tags_{brand}.json so the customer-facing lookbook can show labels.
+ * Brands without a saved vocabulary use DEFAULT_TAG_VOCABULARY.
+ */
+
+import type { Env } from '../index'
+import { fetchFromBucket } from './r2'
+import { DEFAULT_TAG_VOCABULARY, validateTagVocabulary, type TagVocabulary } from '@lookbook/menu-schema'
+
+export function tagVocabularyKey(brand: string): string {
+  return `${brand}/tags_${brand}.json`
+}
+
+/**
+ * Read the brand's vocabulary, falling back to the default
+ */
+export async function readTagVocabulary(env: Env, brand: string): Promise<TagVocabulary> {
+  const data = await fetchFromBucket(env, tagVocabularyKey(brand))
+  return validateTagVocabulary(data).valid ? data as TagVocabulary : DEFAULT_TAG_VOCABULARY
+}
+
+export async function writeTagVocabulary(
+  env: Env,
+  brand: string,
+  vocabulary: TagVocabulary
+): Promise<void> {
+  await env.MENU_BUCKET.put(tagVocabularyKey(brand), JSON.stringify(vocabulary, null, 2), {
+    httpMetadata: { contentType: 'application/json' }
+  })
+}
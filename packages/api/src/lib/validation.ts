@@ -0,0 +1,25 @@
+/**
+ * Menu validation context
+ *
+ * Menu writes are validated against the brand's tag vocabulary and catalog
+ * and the store's currency.
+ */
+
+import type { Env } from '../index'
+import { readTagVocabulary } from './tags'
+import { readStoreCurrency } from './stores'
+import { readCatalog } from './catalog'
+import type { ValidateOptions } from '@lookbook/menu-schema'
+
+export async function menuValidateOptions(
+  env: Env,
+  brand: string,
+  store: string
+): Promise<ValidateOptions & { currency: string }> {
+  const [tags, currency, catalog] = await Promise.all([
+    readTagVocabulary(env, brand),
+    readStoreCurrency(env, brand, store),
+    readCatalog(env, brand)
+  ])
+  return { tags, currency, catalog: catalog ?? undefined }
+}
@@ -4,29 +4,51 @@
  * Every write creates:
  * 1. Snapshot JSON at /_versions/{brand}/{store}__{menu}/{timestamp}.json
  * 2. Manifest entry at /_versions/{brand}/{store}__{menu}/manifest.json
- * 3. Audit log line at /_logs/{brand}/{store}__{menu}/{date}.jsonl
+ * 3. Audit log event (see lib/audit.ts)
  */
 
 import type { Env } from '../index'
 
-interface VersionEntry {
+export type VersionType = 'edit' | 'upload' | 'restore' | 'patch' | 'scheduled' | 'publish' | 'clone'
+
+export interface VersionEntry {
   id: string
-  type: 'edit' | 'upload'
+  type: VersionType
   timestamp: string
   keyId: string
   itemCount: number
+  sourceVersionId?: string // Set on restore entries
+  changedItemIds?: string[] // Set on patch entries
+  scheduledId?: string // Set on scheduled entries
+  clonedFrom?: string // Set on clone entries, "{brand}/{store}/{menu}"
 }
 
-interface Manifest {
+export interface Manifest {
   current: string
   versions: VersionEntry[]
 }
 
-interface AuditEntry {
-  type: 'edit' | 'upload'
-  versionId: string
-  keyId: string
-  itemCount: number
+interface VersionDetails {
+  sourceVersionId?: string
+  changedItemIds?: string[]
+  scheduledId?: string
+  clonedFrom?: string
+}
+
+// Hard cap on manifest entries (retention normally keeps far fewer)
+export const MAX_MANIFEST_VERSIONS = 500
+
+const MANIFEST_WRITE_ATTEMPTS = 5
+
+/**
+ * Thrown by writeVersion when the manifest's current version is not the one
+ * the write was based on
+ */
+export class VersionConflictError extends Error {
+  constructor(public currentVersionId: string | null) {
+    super('Version conflict: menu was changed since it was loaded')
+    this.name = 'VersionConflictError'
+  }
 }
 
 /**
@@ -38,6 +60,11 @@ function generateTimestampId(): string {
 
 /**
  * Write a version snapshot and update manifest
+ *
+ * With expectedVersionId (null for a menu that was never versioned) the
+ * manifest is only updated while its current version still matches, checked
+ * in the same conditional put; otherwise the snapshot is discarded and
+ * VersionConflictError is thrown.
  */
 export async function writeVersion(
   env: Env,
@@ -45,8 +72,10 @@ export async function writeVersion(
   store: string,
   menu: string,
   data: unknown,
-  type: 'edit' | 'upload',
-  keyId: string
+  type: VersionType,
+  keyId: string,
+  details: VersionDetails = {},
+  expectedVersionId?: string | null
 ): Promise<string> {
   const versionId = generateTimestampId()
   const basePath = `_versions/${brand}/${store}__${menu}`
@@ -57,20 +86,6 @@ export async function writeVersion(
     httpMetadata: { contentType: 'application/json' }
   })
 
-  // Update manifest
-  const manifestKey = `${basePath}/manifest.json`
-  let manifest: Manifest = { current: versionId, versions: [] }
-
-  // Try to load existing manifest
-  const existingManifest = await env.INTERNAL_BUCKET.get(manifestKey)
-  if (existingManifest) {
-    try {
-      manifest = await existingManifest.json()
-    } catch {
-      // Start fresh if manifest is corrupted
-    }
-  }
-
   // Add new version entry
   const entry: VersionEntry = {
     id: versionId,
@@ -79,55 +94,100 @@ export async function writeVersion(
     keyId,
     itemCount: Array.isArray((data as { items?: unknown[] }).items)
       ? (data as { items: unknown[] }).items.length
-      : 0
+      : 0,
+    ...details
   }
 
-  manifest.current = versionId
-  manifest.versions.unshift(entry) // Newest first
+  // Update manifest with a conditional put, so concurrent writers and the
+  // retention job's prune never overwrite each other; retry on a lost race
+  const manifestKey = `${basePath}/manifest.json`
+  for (let attempt = 1; attempt <= MANIFEST_WRITE_ATTEMPTS; attempt++) {
+    const existingManifest = await env.INTERNAL_BUCKET.get(manifestKey)
+    let manifest: Manifest = { current: '', versions: [] }
+    if (existingManifest) {
+      try {
+        manifest = await existingManifest.json()
+      } catch {
+        // Start fresh if manifest is corrupted
+      }
+    }
+
+    const currentVersionId = manifest.current || null
+    if (expectedVersionId !== undefined && expectedVersionId !== currentVersionId) {
+      await env.INTERNAL_BUCKET.delete(snapshotKey)
+      throw new VersionConflictError(currentVersionId)
+    }
 
-  // Keep only last 100 versions in manifest
-  if (manifest.versions.length > 100) {
-    manifest.versions = manifest.versions.slice(0, 100)
+    manifest.current = versionId
+    // Newest first. Old entries and their snapshots are pruned by the retention
+    // job (lib/retention.ts); the cap only bounds the manifest if it stops running,
+    // and retention removes the snapshots of dropped entries as orphans.
+    manifest.versions = [entry, ...manifest.versions].slice(0, MAX_MANIFEST_VERSIONS)
+
+    const written = await env.INTERNAL_BUCKET.put(manifestKey, JSON.stringify(manifest, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: existingManifest
+        ? { etagMatches: existingManifest.etag }
+        : new Headers({ 'If-None-Match': '*' })
+    })
+    if (written) return versionId
   }
 
-  await env.INTERNAL_BUCKET.put(manifestKey, JSON.stringify(manifest, null, 2), {
-    httpMetadata: { contentType: 'application/json' }
-  })
-
-  return versionId
+  await env.INTERNAL_BUCKET.delete(snapshotKey)
+  throw new Error(`Manifest for ${brand}/${store}/${menu} kept changing; version not written`)
 }
 
 /**
- * Append to audit log (JSONL format)
+ * Get the manifest's current version id (null if the menu has never been versioned)
  */
-export async function appendAuditLog(
+export async function getCurrentVersionId(
   env: Env,
   brand: string,
   store: string,
-  menu: string,
-  entry: AuditEntry
-): Promise<void> {
-  const date = new Date().toISOString().split('T')[0] // YYYY-MM-DD
-  const logKey = `_logs/${brand}/${store}__${menu}/${date}.jsonl`
-
-  const logEntry = {
-    ...entry,
-    timestamp: new Date().toISOString()
+  menu: string
+): Promise<string | null> {
+  const object = await env.INTERNAL_BUCKET.get(`_versions/${brand}/${store}__${menu}/manifest.json`)
+  if (!object) return null
+
+  try {
+    const manifest: Manifest = await object.json()
+    return manifest.current || null
+  } catch {
+    return null
   }
+}
 
-  // Try to append to existing log
-  const existingLog = await env.INTERNAL_BUCKET.get(logKey)
-  let content = ''
+/**
+ * Version id from a request's If-Match header (null if absent or "*")
+ * Accepts both strong and weak (W/"...") entity tags
+ */
+export function parseIfMatch(request: Request): string | null {
+  const ifMatch = request.headers.get('If-Match')
+  if (!ifMatch || ifMatch.trim() === '*') return null
+  return ifMatch.trim().replace(/^W\//, '').replace(/^"|"$/g, '')
+}
 
-  if (existingLog) {
-    content = await existingLog.text()
-  }
+/**
+ * Check a request's If-Match precondition against the current version
+ * Requests without If-Match (or with "*") always pass. This is an early
+ * check; pass expectedVersionId on to writeVersion, which repeats it
+ * atomically with the manifest update.
+ */
+export async function checkVersionPrecondition(
+  request: Request,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<{ ok: boolean; currentVersionId: string | null; expectedVersionId?: string }> {
+  const currentVersionId = await getCurrentVersionId(env, brand, store, menu)
+  const expected = parseIfMatch(request)
 
-  content += JSON.stringify(logEntry) + '\n'
+  if (expected === null) {
+    return { ok: true, currentVersionId }
+  }
 
-  await env.INTERNAL_BUCKET.put(logKey, content, {
-    httpMetadata: { contentType: 'application/x-ndjson' }
-  })
+  return { ok: expected === currentVersionId, currentVersionId, expectedVersionId: expected }
 }
 
 /**
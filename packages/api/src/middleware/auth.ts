@@ -17,6 +17,7 @@ import type { Env } from '../index'
 export interface AuthContext {
   brandSlug: string
   keyId: string
+  keyLabel?: string
   isSuperAdmin: boolean
 }
 
@@ -78,6 +79,7 @@ export async function authenticate(request: Request, env: Env): Promise<AuthResu
       context: {
         brandSlug: '*',
         keyId: 'super_admin',
+        keyLabel: 'Super admin',
         isSuperAdmin: true
       }
     }
@@ -116,6 +118,7 @@ export async function authenticate(request: Request, env: Env): Promise<AuthResu
           context: {
             brandSlug,
             keyId: matchedKey.id,
+            keyLabel: matchedKey.label,
             isSuperAdmin: false
           }
         }
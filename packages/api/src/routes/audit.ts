@@ -0,0 +1,77 @@
+/**
+ * Audit routes
+ * - GET /api/audit - query the audit log
+ *
+ * Query params: brand, store, menu, keyId, type, from, to (YYYY-MM-DD),
+ * limit (default 50, max 200), cursor
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import { queryAuditLog } from '../lib/audit'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+}
+
+/**
+ * GET /api/audit
+ * Super-admins may query any brand (or all brands); brand keys only their own
+ */
+export async function handleAuditQuery(url: URL, env: Env, auth: AuthContext): Promise<Response> {
+  const params = url.searchParams
+  let brand = params.get('brand') || undefined
+
+  // Enforce tenant isolation
+  if (!auth.isSuperAdmin) {
+    if (brand && brand !== auth.brandSlug) {
+      return json({ error: 'Forbidden: brand mismatch' }, 403)
+    }
+    brand = auth.brandSlug
+  }
+
+  const store = params.get('store') || undefined
+  const menu = params.get('menu') || undefined
+  if (menu && !store) {
+    return json({ error: '"menu" filter requires "store"' }, 400)
+  }
+  if (store && !brand) {
+    return json({ error: '"store" filter requires "brand"' }, 400)
+  }
+
+  const from = params.get('from') || undefined
+  const to = params.get('to') || undefined
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return json({ error: '"from" and "to" must be dates in YYYY-MM-DD format' }, 400)
+  }
+
+  const limitParam = parseInt(params.get('limit') || '', 10)
+  const limit = Number.isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+
+  try {
+    const result = await queryAuditLog(env, {
+      brand,
+      store,
+      menu,
+      keyId: params.get('keyId') || undefined,
+      type: params.get('type') || undefined,
+      from,
+      to,
+      limit,
+      cursor: params.get('cursor') || undefined
+    })
+
+    return json(result)
+  } catch (error) {
+    console.error('Error querying audit log:', error)
+    return json({ error: 'Failed to query audit log' }, 500)
+  }
+}
@@ -2,11 +2,27 @@
  * Brand routes
  * - GET /api/brands - list all brands
  * - GET /api/brands/:brand - get brand registry
+ * - GET /api/brands/:brand/tags - get dietary/allergen tag vocabulary
+ * - PUT /api/brands/:brand/tags - save tag vocabulary
+ * - GET /api/brands/:brand/catalog - get master item catalog
+ * - PUT /api/brands/:brand/catalog - save master item catalog
  */
 
 import type { Env } from '../index'
 import { corsHeaders } from '../middleware/cors'
 import { fetchFromBucket } from '../lib/r2'
+import { readTagVocabulary, writeTagVocabulary } from '../lib/tags'
+import { readCatalog, writeCatalog } from '../lib/catalog'
+import { brandRegistryKey } from '../lib/registry'
+import { storeConfigKey } from '../lib/stores'
+import { readLiveMenu, writeLiveMenu, type MenuItem } from '../lib/menu'
+import {
+  validateCatalog,
+  validateTagVocabulary,
+  type BrandCatalog,
+  type StoreConfig,
+  type TagVocabulary
+} from '@lookbook/menu-schema'
 
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -37,11 +53,11 @@ export async function handleBrands(env: Env): Promise<Response> {
 /**
  * GET /api/brands/:brand
  * Fetch registry_{brand}.json from public bucket
+ * `locales` lists the brand's menu languages, default first (e.g. ["en", "es"])
  */
 export async function handleBrandRegistry(env: Env, brand: string): Promise<Response> {
   try {
-    const key = `${brand}/registry_${brand}.json`
-    const data = await fetchFromBucket(env, key)
+    const data = await fetchFromBucket(env, brandRegistryKey(brand))
 
     if (!data) {
       return json({ error: `Registry not found for brand: ${brand}` }, 404)
@@ -53,3 +69,136 @@ export async function handleBrandRegistry(env: Env, brand: string): Promise<Resp
     return json({ error: 'Failed to fetch brand registry' }, 500)
   }
 }
+
+/**
+ * GET /api/brands/:brand/tags
+ * Returns the default vocabulary when the brand has not saved one
+ */
+export async function handleBrandTags(env: Env, brand: string): Promise<Response> {
+  try {
+    const tags = await readTagVocabulary(env, brand)
+    return json(tags)
+  } catch (error) {
+    console.error(`Error fetching tag vocabulary for ${brand}:`, error)
+    return json({ error: 'Failed to fetch tag vocabulary' }, 500)
+  }
+}
+
+/**
+ * PUT /api/brands/:brand/tags
+ * Body: { dietary: [{ id, label }], allergens: [{ id, label }], maxSpiceLevel }
+ */
+export async function handleSaveBrandTags(
+  request: Request,
+  env: Env,
+  brand: string
+): Promise<Response> {
+  try {
+    const body = await request.json()
+
+    const validation = validateTagVocabulary(body)
+    if (!validation.valid) {
+      return json({
+        error: `Invalid tag vocabulary: ${validation.errors.length} error(s)`,
+        errors: validation.errors
+      }, 422)
+    }
+
+    const { dietary, allergens, maxSpiceLevel } = body as TagVocabulary
+    const tags: TagVocabulary = { dietary, allergens, maxSpiceLevel }
+    await writeTagVocabulary(env, brand, tags)
+
+    return json({ success: true, tags })
+  } catch (error) {
+    console.error(`Error saving tag vocabulary for ${brand}:`, error)
+    return json({ error: 'Failed to save tag vocabulary' }, 500)
+  }
+}
+
+/**
+ * GET /api/brands/:brand/catalog
+ * Returns { items: [] } when the brand has no catalog
+ */
+export async function handleBrandCatalog(env: Env, brand: string): Promise<Response> {
+  try {
+    const catalog = await readCatalog(env, brand)
+    return json(catalog || { items: [] })
+  } catch (error) {
+    console.error(`Error fetching catalog for ${brand}:`, error)
+    return json({ error: 'Failed to fetch catalog' }, 500)
+  }
+}
+
+/**
+ * Ids of catalog items added or changed between two catalogs
+ */
+function changedCatalogIds(before: BrandCatalog<MenuItem> | null, after: BrandCatalog<MenuItem>): Set<string> {
+  const previous = new Map((before?.items || []).map(item => [item.id, JSON.stringify(item)]))
+  return new Set(after.items.filter(item => previous.get(item.id) !== JSON.stringify(item)).map(item => item.id))
+}
+
+/**
+ * Rewrite every live menu of the brand that links to one of the given
+ * catalog items; writeLiveMenu resolves them against the saved catalog
+ */
+async function republishLinkedMenus(
+  env: Env,
+  brand: string,
+  catalogIds: Set<string>
+): Promise<{ republished: number; failed: number }> {
+  const registry = await fetchFromBucket(env, brandRegistryKey(brand)) as { stores?: { slug: string }[] } | null
+  let republished = 0
+  let failed = 0
+
+  for (const { slug } of registry?.stores || []) {
+    const config = await fetchFromBucket(env, storeConfigKey(brand, slug)) as StoreConfig | null
+    for (const { id } of config?.menus || []) {
+      try {
+        const live = await readLiveMenu(env, brand, slug, id)
+        if (!live?.items.some(item => item.catalogId && catalogIds.has(item.catalogId))) continue
+        await writeLiveMenu(env, brand, slug, id, live)
+        republished++
+      } catch (error) {
+        console.error(`Error republishing ${brand}/${slug}/${id} after catalog change:`, error)
+        failed++
+      }
+    }
+  }
+
+  return { republished, failed }
+}
+
+/**
+ * PUT /api/brands/:brand/catalog
+ * Body: { items: MenuItem[] } - store-specific fields (soldOut, available, catalogId) are rejected
+ * Live menus linking to an added or changed catalog item are republished
+ */
+export async function handleSaveBrandCatalog(
+  request: Request,
+  env: Env,
+  brand: string
+): Promise<Response> {
+  try {
+    const body = await request.json()
+
+    const validation = validateCatalog(body, { tags: await readTagVocabulary(env, brand) })
+    if (!validation.valid) {
+      return json({
+        error: `Invalid catalog: ${validation.errors.length} error(s)`,
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, 422)
+    }
+
+    const catalog: BrandCatalog<MenuItem> = { items: (body as BrandCatalog<MenuItem>).items }
+    const changed = changedCatalogIds(await readCatalog(env, brand), catalog)
+    await writeCatalog(env, brand, catalog)
+
+    const { republished, failed } = await republishLinkedMenus(env, brand, changed)
+
+    return json({ success: true, catalog, warnings: validation.warnings, republished, republishFailed: failed })
+  } catch (error) {
+    console.error(`Error saving catalog for ${brand}:`, error)
+    return json({ error: 'Failed to save catalog' }, 500)
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Menu clone route
+ * - POST /api/menus/:brand/:store/:menu/clone - copy another menu into this one
+ *
+ * Brand keys may clone within their brand; cloning from another brand needs
+ * a super-admin key. With dryRun the response previews collisions and images
+ * without writing anything. Clones are written as a `clone` version that
+ * records the source menu (see lib/clone.ts).
+ *
+ * If-Match is checked like other menu writes (see routes/menus.ts); it is
+ * optional, and clones without it replace the target unchecked.
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import { writeVersion, checkVersionPrecondition, VersionConflictError } from '../lib/versioning'
+import { appendAuditLog, auditActor } from '../lib/audit'
+import { liveMenuKey, readLiveMenu, writeLiveMenu } from '../lib/menu'
+import { resolveCatalog } from '../lib/catalog'
+import { changedItemIds } from '../lib/diff'
+import { fetchFromBucket } from '../lib/r2'
+import { storeConfigKey } from '../lib/stores'
+import { menuValidateOptions } from '../lib/validation'
+import {
+  copyImages,
+  formatMenuRef,
+  menuCategories,
+  planClone,
+  type CloneMode,
+  type ImageCopyResult,
+  type MenuRef
+} from '../lib/clone'
+import { validateMenu, type StoreConfig } from '@lookbook/menu-schema'
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers }
+  })
+}
+
+function versionConflict(currentVersionId: string | null): Response {
+  return json({
+    error: 'Version conflict: menu was changed since it was loaded',
+    currentVersionId
+  }, 409)
+}
+
+interface CloneRequest {
+  source?: Partial<MenuRef>
+  categories?: unknown
+  mode?: unknown
+  copyImages?: unknown
+  dryRun?: unknown
+}
+
+function isMenuRef(value: Partial<MenuRef> | undefined): value is MenuRef {
+  return !!value
+    && typeof value.brand === 'string' && value.brand !== ''
+    && typeof value.store === 'string' && value.store !== ''
+    && typeof value.menu === 'string' && value.menu !== ''
+}
+
+/**
+ * POST /api/menus/:brand/:store/:menu/clone
+ * Body: {
+ *   source: { brand, store, menu },
+ *   mode: 'replace' | 'merge',
+ *   categories?: string[],   // default: all
+ *   copyImages?: boolean,    // cross-brand only; copies referenced images
+ *   dryRun?: boolean         // preview only
+ * }
+ *
+ * The target menu is created (and added to its store config) if missing.
+ */
+export async function handleCloneMenu(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const body = await request.json() as CloneRequest
+    const target: MenuRef = { brand, store, menu }
+    const source = body.source
+
+    if (!isMenuRef(source)) {
+      return json({ error: '"source" must be { brand, store, menu }' }, 400)
+    }
+    if (body.mode !== 'replace' && body.mode !== 'merge') {
+      return json({ error: '"mode" must be "replace" or "merge"' }, 400)
+    }
+    if (body.categories !== undefined
+      && !(Array.isArray(body.categories) && body.categories.every(c => typeof c === 'string'))) {
+      return json({ error: '"categories" must be an array of category names' }, 400)
+    }
+    if (formatMenuRef(source) === formatMenuRef(target)) {
+      return json({ error: 'Source and target are the same menu' }, 400)
+    }
+    if (source.brand !== auth.brandSlug && !auth.isSuperAdmin) {
+      return json({ error: 'Forbidden: brand mismatch' }, 403)
+    }
+
+    const mode: CloneMode = body.mode
+    const categories = body.categories as string[] | undefined
+    const dryRun = body.dryRun === true
+    const crossBrand = source.brand !== target.brand
+
+    const sourceMenu = await readLiveMenu(env, source.brand, source.store, source.menu)
+    if (!sourceMenu) {
+      return json({ error: `Menu not found: ${formatMenuRef(source)}` }, 404)
+    }
+
+    const available = menuCategories(sourceMenu)
+    const unknown = (categories || []).filter(category => !available.includes(category))
+    if (unknown.length > 0) {
+      return json({ error: `Unknown categories in ${formatMenuRef(source)}: ${unknown.join(', ')}` }, 400)
+    }
+
+    const storeConfig = await fetchFromBucket(env, storeConfigKey(brand, store)) as StoreConfig | null
+    if (!storeConfig) {
+      return json({ error: `Store not found: ${brand}/${store}` }, 404)
+    }
+
+    const targetMenu = await readLiveMenu(env, brand, store, menu)
+    const plan = planClone(
+      await resolveCatalog(env, source.brand, sourceMenu),
+      targetMenu,
+      { mode, categories, crossBrand }
+    )
+
+    const validation = validateMenu(plan.menu, await menuValidateOptions(env, brand, store))
+
+    // Same-brand clones already share the image folder
+    const copyRequested = crossBrand && body.copyImages === true
+    let images: ImageCopyResult | null = copyRequested
+      ? await copyImages(env, source.brand, brand, plan.images, true)
+      : null
+
+    if (dryRun) {
+      return json({
+        dryRun: true,
+        source,
+        target,
+        mode,
+        categories: categories || available,
+        clonedItemIds: plan.clonedItemIds,
+        itemCount: plan.menu.items.length,
+        collisions: plan.collisions,
+        images,
+        uncopiedImages: crossBrand && !copyRequested ? plan.images : [],
+        valid: validation.valid,
+        errors: validation.errors,
+        warnings: validation.warnings
+      })
+    }
+
+    if (!validation.valid) {
+      return json({
+        error: `Invalid menu data: ${validation.errors.length} error(s)`,
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, 422)
+    }
+
+    // Reject stale writes to the target
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    if (!precondition.ok) {
+      return versionConflict(precondition.currentVersionId)
+    }
+
+    if (copyRequested) {
+      images = await copyImages(env, source.brand, brand, plan.images)
+    }
+
+    const clonedFrom = formatMenuRef(source)
+    const versionId = await writeVersion(env, brand, store, menu, plan.menu, 'clone', auth.keyId, { clonedFrom }, precondition.expectedVersionId)
+
+    await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
+      type: 'clone',
+      versionId,
+      itemCount: plan.menu.items.length,
+      changedItemIds: changedItemIds(targetMenu, plan.menu),
+      clonedFrom
+    })
+
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, plan.menu, versionId)
+
+    // New menus are listed in the store config so editors and the active-menu endpoint see them
+    if (!storeConfig.menus.some(entry => entry.id === menu)) {
+      const sourceConfig = await fetchFromBucket(env, storeConfigKey(source.brand, source.store)) as StoreConfig | null
+      const label = sourceConfig?.menus.find(entry => entry.id === source.menu)?.label || menu
+      storeConfig.menus.push({ id: menu, label, file: liveMenuKey(brand, store, menu) })
+      await env.MENU_BUCKET.put(storeConfigKey(brand, store), JSON.stringify(storeConfig, null, 2), {
+        httpMetadata: { contentType: 'application/json' }
+      })
+    }
+
+    return json({
+      success: true,
+      versionId,
+      liveUrl,
+      clonedFrom,
+      clonedItemIds: plan.clonedItemIds,
+      collisions: plan.collisions,
+      images,
+      warnings: validation.warnings
+    }, 200, { ETag: `"${versionId}"` })
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
+    console.error(`Error cloning into ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to clone menu' }, 500)
+  }
+}
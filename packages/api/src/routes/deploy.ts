@@ -6,12 +6,29 @@
 import type { Env } from '../index'
 import type { AuthContext } from '../middleware/auth'
 import { corsHeaders } from '../middleware/cors'
+import { readCatalog, resolveCatalog } from '../lib/catalog'
+import { formatMenuRef, planClone } from '../lib/clone'
+import { readLiveMenu, writeLiveMenu, type MenuData } from '../lib/menu'
+import { brandRegistryKey, getBrandRegistryObject } from '../lib/registry'
+import { menuValidateOptions } from '../lib/validation'
+import { writeVersion } from '../lib/versioning'
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_CURRENCY,
+  DEFAULT_MONEY_LOCALE,
+  isValidCurrency,
+  isValidLocale,
+  validateMenu,
+  type StoreConfig
+} from '@lookbook/menu-schema'
 
 interface DeployBrandRequest {
   brandSlug: string
   brandName: string
   locationSlug: string
   locationName: string
+  currency?: string // defaults to USD
+  locale?: string // defaults to en-US
 }
 
 /**
@@ -36,6 +53,8 @@ export async function handleDeployBrand(
     const locationSlug = formData.get('locationSlug')?.toString().trim().toLowerCase()
     const locationName = formData.get('locationName')?.toString().trim()
     const logoFile = formData.get('logo') as File | null
+    const currency = formData.get('currency')?.toString().trim().toUpperCase() || DEFAULT_CURRENCY
+    const locale = formData.get('locale')?.toString().trim() || DEFAULT_MONEY_LOCALE
 
     // Validate required fields
     if (!brandSlug || !brandName || !locationSlug || !locationName) {
@@ -47,18 +66,23 @@ export async function handleDeployBrand(
       return json({ error: 'Slugs must be lowercase alphanumeric only' }, 400)
     }
 
-    // Check if brand already exists
-    const existingRegistry = await env.MENU_BUCKET.get(`${brandSlug}/registry.json`)
+    if (!isValidCurrency(currency) || !isValidLocale(locale)) {
+      return json({ error: `Invalid currency "${currency}" or locale "${locale}"` }, 400)
+    }
+
+    // Check if brand already exists (including brands on the legacy registry key)
+    const existingRegistry = await getBrandRegistryObject(env, brandSlug)
     if (existingRegistry) {
       return json({ error: `Brand "${brandSlug}" already exists` }, 409)
     }
 
     const filesCreated: string[] = []
 
-    // 1. Create registry.json
+    // 1. Create the brand registry
     const registry = {
       brand: { slug: brandSlug, name: brandName },
       defaultStore: locationSlug,
+      locales: [DEFAULT_LOCALE],
       stores: [
         { slug: locationSlug, name: locationName, file: `${locationSlug}.json` }
       ],
@@ -69,16 +93,18 @@ export async function handleDeployBrand(
     }
 
     await env.MENU_BUCKET.put(
-      `${brandSlug}/registry.json`,
+      brandRegistryKey(brandSlug),
       JSON.stringify(registry, null, 2),
       { httpMetadata: { contentType: 'application/json' } }
     )
-    filesCreated.push(`${brandSlug}/registry.json`)
+    filesCreated.push(brandRegistryKey(brandSlug))
 
     // 2. Create store config
     const storeConfig = {
       slug: locationSlug,
       name: `${brandName} ${locationName}`,
+      currency,
+      locale,
       menus: [
         {
           id: 'dinner',
@@ -109,7 +135,7 @@ export async function handleDeployBrand(
           id: 'sample-item-1',
           name: 'Sample Item',
           category: 'Appetizers',
-          price: '$9.99',
+          price: { amount: 999, currency },
           description: 'This is a sample menu item. Edit or replace this item.',
           image: ''
         }
@@ -202,11 +228,16 @@ interface DeployLocationRequest {
   brandSlug: string
   locationSlug: string
   locationName: string
+  currency?: string // defaults to USD
+  locale?: string // defaults to en-US
+  cloneFrom?: { store: string; menu: string } // start from an existing store's menu
 }
 
 /**
  * POST /api/deploy/location
  * Creates a new location for an existing brand
+ * With cloneFrom, the new store starts from a copy of that store's menu
+ * instead of the catalog or sample menu
  */
 export async function handleDeployLocation(
   request: Request,
@@ -224,6 +255,8 @@ export async function handleDeployLocation(
     const brandSlug = body.brandSlug?.trim().toLowerCase()
     const locationSlug = body.locationSlug?.trim().toLowerCase()
     const locationName = body.locationName?.trim()
+    const currency = body.currency?.trim().toUpperCase() || DEFAULT_CURRENCY
+    const locale = body.locale?.trim() || DEFAULT_MONEY_LOCALE
 
     // Validate required fields
     if (!brandSlug || !locationSlug || !locationName) {
@@ -235,13 +268,17 @@ export async function handleDeployLocation(
       return json({ error: 'Location slug must be lowercase alphanumeric only' }, 400)
     }
 
+    if (!isValidCurrency(currency) || !isValidLocale(locale)) {
+      return json({ error: `Invalid currency "${currency}" or locale "${locale}"` }, 400)
+    }
+
     // Check if brand exists
-    const registryFile = await env.MENU_BUCKET.get(`${brandSlug}/registry.json`)
+    const registryFile = await getBrandRegistryObject(env, brandSlug)
     if (!registryFile) {
       return json({ error: `Brand "${brandSlug}" not found` }, 404)
     }
 
-    const registry = await registryFile.json() as {
+    const registry = await registryFile.object.json() as {
       brand: { slug: string; name: string }
       defaultStore: string
       stores: Array<{ slug: string; name: string; file: string }>
@@ -254,17 +291,91 @@ export async function handleDeployLocation(
       return json({ error: `Location "${locationSlug}" already exists` }, 409)
     }
 
+    // Resolve the menu to clone before writing anything
+    let cloned: { menu: string; label: string; data: MenuData; from: string } | null = null
+    if (body.cloneFrom) {
+      const { store: sourceStore, menu: sourceMenu } = body.cloneFrom
+      const source = await readLiveMenu(env, brandSlug, sourceStore, sourceMenu)
+      if (!source) {
+        return json({ error: `Menu not found: ${brandSlug}/${sourceStore}/${sourceMenu}` }, 404)
+      }
+
+      const plan = planClone(await resolveCatalog(env, brandSlug, source), null, { mode: 'replace', crossBrand: false })
+      const options = await menuValidateOptions(env, brandSlug, sourceStore)
+      const validation = validateMenu(plan.menu, { ...options, currency })
+      if (!validation.valid) {
+        return json({
+          error: `Cannot clone ${brandSlug}/${sourceStore}/${sourceMenu}: ${validation.errors.length} error(s)`,
+          errors: validation.errors,
+          warnings: validation.warnings
+        }, 422)
+      }
+
+      const sourceConfig = await env.MENU_BUCKET.get(`${brandSlug}/${sourceStore}.json`)
+      const sourceEntry = sourceConfig
+        ? (await sourceConfig.json() as StoreConfig).menus.find(entry => entry.id === sourceMenu)
+        : undefined
+      cloned = {
+        menu: sourceMenu,
+        label: sourceEntry?.label || sourceMenu,
+        data: plan.menu,
+        from: formatMenuRef({ brand: brandSlug, store: sourceStore, menu: sourceMenu })
+      }
+    }
+
+    // Otherwise seed from the brand catalog (linked items) or a sample item,
+    // checked against the new store's currency like a clone
+    const catalog = cloned ? null : await readCatalog(env, brandSlug)
+    const initialMenu = {
+      meta: {
+        brand: brandSlug,
+        store: locationSlug,
+        menuType: 'dinner',
+        title: 'Dinner Menu',
+        categoryOrder: catalog?.items.length
+          ? [...new Set(catalog.items.map(item => item.category))]
+          : ['Appetizers', 'Entrees', 'Desserts']
+      },
+      items: catalog?.items.length
+        ? catalog.items.map(item => ({ ...item, catalogId: item.id }))
+        : [
+            {
+              id: 'sample-item-1',
+              name: 'Sample Item',
+              category: 'Appetizers',
+              price: { amount: 999, currency },
+              description: 'This is a sample menu item. Edit or replace this item.',
+              image: ''
+            }
+          ]
+    }
+
+    if (catalog?.items.length) {
+      const options = await menuValidateOptions(env, brandSlug, locationSlug)
+      const validation = validateMenu(initialMenu, { ...options, currency })
+      if (!validation.valid) {
+        return json({
+          error: `Cannot seed the menu from the ${brandSlug} catalog: ${validation.errors.length} error(s)`,
+          errors: validation.errors,
+          warnings: validation.warnings
+        }, 422)
+      }
+    }
+
+    const menuId = cloned?.menu || 'dinner'
     const filesCreated: string[] = []
 
     // 1. Create store config
     const storeConfig = {
       slug: locationSlug,
       name: `${registry.brand.name} ${locationName}`,
+      currency,
+      locale,
       menus: [
         {
-          id: 'dinner',
-          label: 'Dinner',
-          file: `${brandSlug}/${locationSlug}__dinner.json`
+          id: menuId,
+          label: cloned?.label || 'Dinner',
+          file: `${brandSlug}/${locationSlug}__${menuId}.json`
         }
       ]
     }
@@ -276,35 +387,22 @@ export async function handleDeployLocation(
     )
     filesCreated.push(`${brandSlug}/${locationSlug}.json`)
 
-    // 2. Create initial menu
-    const initialMenu = {
-      meta: {
-        brand: brandSlug,
-        store: locationSlug,
-        menuType: 'dinner',
-        title: 'Dinner Menu',
-        categoryOrder: ['Appetizers', 'Entrees', 'Desserts']
-      },
-      items: [
-        {
-          id: 'sample-item-1',
-          name: 'Sample Item',
-          category: 'Appetizers',
-          price: '$9.99',
-          description: 'This is a sample menu item. Edit or replace this item.',
-          image: ''
-        }
-      ]
+    // 2. Create initial menu: a clone, linked to the brand catalog when it has one, or a sample
+    if (cloned) {
+      const versionId = await writeVersion(env, brandSlug, locationSlug, menuId, cloned.data, 'clone', auth.keyId, {
+        clonedFrom: cloned.from
+      })
+      await writeLiveMenu(env, brandSlug, locationSlug, menuId, cloned.data, versionId)
+    } else {
+      await env.MENU_BUCKET.put(
+        `${brandSlug}/${locationSlug}__dinner.json`,
+        JSON.stringify(initialMenu, null, 2),
+        { httpMetadata: { contentType: 'application/json' } }
+      )
     }
+    filesCreated.push(`${brandSlug}/${locationSlug}__${menuId}.json`)
 
-    await env.MENU_BUCKET.put(
-      `${brandSlug}/${locationSlug}__dinner.json`,
-      JSON.stringify(initialMenu, null, 2),
-      { httpMetadata: { contentType: 'application/json' } }
-    )
-    filesCreated.push(`${brandSlug}/${locationSlug}__dinner.json`)
-
-    // 3. Update registry.json to add the new store
+    // 3. Update the brand registry to add the new store
     registry.stores.push({
       slug: locationSlug,
       name: locationName,
@@ -312,11 +410,16 @@ export async function handleDeployLocation(
     })
 
     await env.MENU_BUCKET.put(
-      `${brandSlug}/registry.json`,
+      brandRegistryKey(brandSlug),
       JSON.stringify(registry, null, 2),
       { httpMetadata: { contentType: 'application/json' } }
     )
-    filesCreated.push(`${brandSlug}/registry.json (updated)`)
+    filesCreated.push(`${brandRegistryKey(brandSlug)} (updated)`)
+
+    // A legacy registry has now moved to brandRegistryKey
+    if (registryFile.key !== brandRegistryKey(brandSlug)) {
+      await env.MENU_BUCKET.delete(registryFile.key)
+    }
 
     return json({
       success: true,
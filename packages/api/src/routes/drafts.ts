@@ -0,0 +1,281 @@
+/**
+ * Draft routes
+ * - GET /api/drafts/:brand/:store/:menu - get the menu's draft
+ * - PUT /api/drafts/:brand/:store/:menu - save draft (does not touch live)
+ * - DELETE /api/drafts/:brand/:store/:menu - discard draft
+ * - POST /api/drafts/:brand/:store/:menu/publish - promote draft to live
+ * - POST /api/drafts/:brand/:store/:menu/preview - create a signed preview link
+ * - GET /api/preview/:brand/:store/:menu?expires=&sig= - read draft via preview link (no auth)
+ *
+ * Draft saves may send If-Match to record which live version the draft is
+ * based on. Publish checks If-Match like other menu writes; without it the
+ * draft's base version is checked instead, so a draft never silently
+ * overwrites live changes made after it was started.
+ *
+ * Drafts may be saved while incomplete; schema validation (@lookbook/menu-schema)
+ * runs on publish.
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import {
+  writeVersion,
+  checkVersionPrecondition,
+  getCurrentVersionId,
+  parseIfMatch,
+  VersionConflictError
+} from '../lib/versioning'
+import { appendAuditLog, auditActor } from '../lib/audit'
+import { isMenuData, readLiveMenu, writeLiveMenu } from '../lib/menu'
+import { changedItemIds } from '../lib/diff'
+import {
+  readDraft,
+  writeDraft,
+  deleteDraft,
+  signPreview,
+  verifyPreview,
+  DEFAULT_PREVIEW_TTL_SECONDS,
+  MAX_PREVIEW_TTL_SECONDS
+} from '../lib/drafts'
+import { resolveCatalog } from '../lib/catalog'
+import { menuValidateOptions } from '../lib/validation'
+import { validateMenu } from '@lookbook/menu-schema'
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers }
+  })
+}
+
+function versionConflict(currentVersionId: string | null): Response {
+  return json({
+    error: 'Version conflict: menu was changed since it was loaded',
+    currentVersionId
+  }, 409)
+}
+/**
+ * GET /api/drafts/:brand/:store/:menu
+ * Returns { draft: null } when the menu has no draft; catalog-linked items are resolved
+ */
+export async function handleGetDraft(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const draft = await readDraft(env, brand, store, menu)
+    if (draft) {
+      draft.data = await resolveCatalog(env, brand, draft.data)
+    }
+    return json({ draft })
+  } catch (error) {
+    console.error(`Error fetching draft ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to fetch draft' }, 500)
+  }
+}
+
+/**
+ * PUT /api/drafts/:brand/:store/:menu
+ * Save menu JSON as the draft
+ */
+export async function handleSaveDraft(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const rawData = await request.json()
+
+    if (!isMenuData(rawData)) {
+      return json({ error: 'Invalid menu data: must have items array' }, 400)
+    }
+
+    // Keep the draft's base version unless the editor rebased onto a newer one
+    const existing = await readDraft(env, brand, store, menu)
+    const baseVersionId = parseIfMatch(request)
+      ?? existing?.baseVersionId
+      ?? await getCurrentVersionId(env, brand, store, menu)
+
+    const draft = await writeDraft(env, brand, store, menu, rawData, baseVersionId, auth)
+
+    return json({
+      success: true,
+      baseVersionId: draft.baseVersionId,
+      updatedAt: draft.updatedAt
+    })
+  } catch (error) {
+    console.error(`Error saving draft ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to save draft' }, 500)
+  }
+}
+
+/**
+ * DELETE /api/drafts/:brand/:store/:menu
+ * Discard the draft; editors fall back to the live menu
+ */
+export async function handleDiscardDraft(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    await deleteDraft(env, brand, store, menu)
+    return json({ success: true })
+  } catch (error) {
+    console.error(`Error discarding draft ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to discard draft' }, 500)
+  }
+}
+
+/**
+ * POST /api/drafts/:brand/:store/:menu/publish
+ * Promote the draft to live (publish type) and delete it
+ */
+export async function handlePublishDraft(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const draft = await readDraft(env, brand, store, menu)
+    if (!draft) {
+      return json({ error: `No draft for ${brand}/${store}/${menu}` }, 404)
+    }
+
+    // Reject publishing over live changes made since the draft was loaded,
+    // or since it was started when the client sends no If-Match
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    const expectedVersionId = precondition.expectedVersionId ?? draft.baseVersionId
+    if (expectedVersionId !== precondition.currentVersionId) {
+      return versionConflict(precondition.currentVersionId)
+    }
+
+    const validation = validateMenu(draft.data, await menuValidateOptions(env, brand, store))
+    if (!validation.valid) {
+      return json({
+        error: `Invalid menu data: ${validation.errors.length} error(s)`,
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, 422)
+    }
+
+    const previous = await readLiveMenu(env, brand, store, menu)
+
+    // Write version snapshot
+    const versionId = await writeVersion(env, brand, store, menu, draft.data, 'publish', auth.keyId, {}, expectedVersionId)
+
+    // Append audit log
+    await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
+      type: 'publish',
+      versionId,
+      itemCount: draft.data.items.length,
+      changedItemIds: changedItemIds(previous, draft.data)
+    })
+
+    // Write to live (public bucket)
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, draft.data, versionId)
+
+    await deleteDraft(env, brand, store, menu)
+
+    return json({
+      success: true,
+      versionId,
+      liveUrl
+    }, 200, { ETag: `"${versionId}"` })
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
+    console.error(`Error publishing draft ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to publish draft' }, 500)
+  }
+}
+
+/**
+ * POST /api/drafts/:brand/:store/:menu/preview
+ * Body (optional): { expiresIn: seconds } - default 7 days, max 30 days
+ */
+export async function handleCreatePreview(
+  request: Request,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  if (!env.PREVIEW_SIGNING_SECRET) {
+    return json({ error: 'Preview links are not configured' }, 500)
+  }
+
+  try {
+    const body = await request.json().catch(() => ({})) as { expiresIn?: unknown }
+    const expiresIn = typeof body.expiresIn === 'number' && body.expiresIn > 0
+      ? Math.min(Math.floor(body.expiresIn), MAX_PREVIEW_TTL_SECONDS)
+      : DEFAULT_PREVIEW_TTL_SECONDS
+
+    const draft = await readDraft(env, brand, store, menu)
+    if (!draft) {
+      return json({ error: `No draft for ${brand}/${store}/${menu}` }, 404)
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn
+    const signature = await signPreview(env, brand, store, menu, expires)
+
+    return json({
+      expires,
+      expiresAt: new Date(expires * 1000).toISOString(),
+      signature
+    })
+  } catch (error) {
+    console.error(`Error creating preview link for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to create preview link' }, 500)
+  }
+}
+
+/**
+ * GET /api/preview/:brand/:store/:menu?expires=&sig=
+ * Public read of the current draft for holders of a valid preview link
+ */
+export async function handlePreview(
+  url: URL,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  const expires = parseInt(url.searchParams.get('expires') || '', 10)
+  const signature = url.searchParams.get('sig') || ''
+
+  try {
+    if (!(await verifyPreview(env, brand, store, menu, expires, signature))) {
+      return json({ error: 'Preview link is invalid or has expired' }, 403)
+    }
+
+    const draft = await readDraft(env, brand, store, menu)
+    if (!draft) {
+      return json({ error: 'This draft has been published or discarded' }, 404)
+    }
+
+    return json({
+      brand,
+      store,
+      menu,
+      updatedAt: draft.updatedAt,
+      expiresAt: new Date(expires * 1000).toISOString(),
+      data: await resolveCatalog(env, brand, draft.data)
+    }, 200, { 'Cache-Control': 'no-store' })
+  } catch (error) {
+    console.error(`Error serving preview ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to load preview' }, 500)
+  }
+}
@@ -1,11 +1,22 @@
 /**
  * Image routes
  * - POST /api/images/:brand - upload image
+ * - GET /api/images/:brand?limit=&cursor=&unused=&q= - list images with their references
+ * - GET /api/images/:brand/:file - image details and references
+ * - DELETE /api/images/:brand/:file?force= - delete an image (409 while referenced, unless forced)
  */
 
 import type { Env } from '../index'
 import type { AuthContext } from '../middleware/auth'
 import { corsHeaders } from '../middleware/cors'
+import {
+  brandImageKey,
+  headBrandImage,
+  listBrandImages,
+  readImageReferences,
+  type BrandImage,
+  type ImageReference
+} from '../lib/images'
 
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -17,6 +28,9 @@ function json(data: unknown, status = 200): Response {
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
 const MAX_SIZE = 10 * 1024 * 1024 // 10MB
 
+const DEFAULT_LIST_LIMIT = 50
+const MAX_LIST_LIMIT = 200
+
 /**
  * POST /api/images/:brand
  * Upload image to public bucket
@@ -66,7 +80,7 @@ export async function handleImageUpload(
     filename = sanitizeFilename(filename)
 
     // Upload to R2
-    const key = `${brand}/images/${filename}`
+    const key = brandImageKey(brand, filename)
     const arrayBuffer = await file.arrayBuffer()
 
     await env.MENU_BUCKET.put(key, arrayBuffer, {
@@ -87,6 +101,108 @@ export async function handleImageUpload(
   }
 }
 
+/**
+ * GET /api/images/:brand
+ * List the brand's images, each with the menus and items that use it
+ *
+ * ?q= keeps file names containing the text and ?unused=true keeps only
+ * unreferenced images; filtered pages are filled from as many listing pages
+ * as needed and may exceed the limit.
+ */
+export async function handleImageList(url: URL, env: Env, brand: string): Promise<Response> {
+  const limit = Number(url.searchParams.get('limit') || DEFAULT_LIST_LIMIT)
+  const unused = url.searchParams.get('unused') === 'true'
+  const query = (url.searchParams.get('q') || '').trim().toLowerCase()
+  const filtered = unused || query !== ''
+  let cursor = url.searchParams.get('cursor') || undefined
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    return json({ error: `limit must be an integer from 1 to ${MAX_LIST_LIMIT}` }, 400)
+  }
+
+  try {
+    const references = await readImageReferences(env, brand)
+    const images: (BrandImage & { references: ImageReference[] })[] = []
+
+    do {
+      const page = await listBrandImages(env, brand, limit, cursor)
+      for (const image of page.images) {
+        const imageReferences = references.get(image.file) || []
+        if (unused && imageReferences.length > 0) continue
+        if (query && !image.file.toLowerCase().includes(query)) continue
+        images.push({ ...image, references: imageReferences })
+      }
+      cursor = page.cursor ?? undefined
+    } while (filtered && cursor && images.length < limit)
+
+    return json({ images, cursor: cursor ?? null })
+  } catch (error) {
+    console.error(`Error listing images for ${brand}:`, error)
+    return json({ error: 'Failed to list images' }, 500)
+  }
+}
+
+/**
+ * GET /api/images/:brand/:file
+ * Image details with every reference to it
+ */
+export async function handleImageInspect(env: Env, brand: string, file: string): Promise<Response> {
+  try {
+    const [image, references] = await Promise.all([
+      headBrandImage(env, brand, file),
+      readImageReferences(env, brand)
+    ])
+    if (!image) {
+      return json({ error: `Image not found: ${file}` }, 404)
+    }
+    return json({ image, references: references.get(file) || [] })
+  } catch (error) {
+    console.error(`Error reading image ${brand}/${file}:`, error)
+    return json({ error: 'Failed to read image' }, 500)
+  }
+}
+
+/**
+ * DELETE /api/images/:brand/:file
+ * Delete an image. Referenced images are refused with 409 and the list of
+ * references unless ?force=true; the references are left dangling.
+ */
+export async function handleImageDelete(
+  url: URL,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  file: string
+): Promise<Response> {
+  const force = url.searchParams.get('force') === 'true'
+
+  try {
+    const [image, references] = await Promise.all([
+      headBrandImage(env, brand, file),
+      readImageReferences(env, brand)
+    ])
+    if (!image) {
+      return json({ error: `Image not found: ${file}` }, 404)
+    }
+
+    const imageReferences = references.get(file) || []
+    if (imageReferences.length > 0 && !force) {
+      return json({
+        error: `Image is in use (${imageReferences.length} reference${imageReferences.length === 1 ? '' : 's'})`,
+        references: imageReferences
+      }, 409)
+    }
+
+    await env.MENU_BUCKET.delete(brandImageKey(brand, file))
+    console.log(`[images] ${auth.keyId} deleted ${brand}/${file} (${imageReferences.length} references)`)
+
+    return json({ success: true, file, references: imageReferences })
+  } catch (error) {
+    console.error(`Error deleting image ${brand}/${file}:`, error)
+    return json({ error: 'Failed to delete image' }, 500)
+  }
+}
+
 /**
  * Sanitize filename for safe storage
  */
@@ -2,59 +2,118 @@
  * Menu routes
  * - GET /api/menus/:brand/:store/:menu - get menu
  * - PUT /api/menus/:brand/:store/:menu - save menu (edit)
- * - POST /api/menus/:brand/:store/:menu/upload - upload full menu
+ * - PATCH /api/menus/:brand/:store/:menu - partial update (JSON Patch or item operations)
+ * - POST /api/menus/:brand/:store/:menu/upload - upload full menu (?dryRun=true to preview reconciliation and diff)
+ *
+ * GET returns the current manifest version as an ETag. Writes may send it
+ * back as If-Match; stale writes are rejected with 409, checked atomically
+ * with the manifest update. If-Match is optional: writes without it are not
+ * checked and overwrite whatever is live. Items linked to the brand catalog
+ * are returned resolved (see lib/catalog.ts).
+ *
+ * Bodies that are not valid JSON are rejected with 400. Writes are validated
+ * with @lookbook/menu-schema; invalid menus are rejected with 422 and
+ * per-item errors. Tags, prices and catalog links are checked
+ * against the brand and store (see lib/validation.ts).
  */
 
 import type { Env } from '../index'
 import type { AuthContext } from '../middleware/auth'
 import { corsHeaders } from '../middleware/cors'
-import { writeVersion, appendAuditLog } from '../lib/versioning'
+import { writeVersion, getCurrentVersionId, checkVersionPrecondition, VersionConflictError } from '../lib/versioning'
+import { appendAuditLog, auditActor } from '../lib/audit'
 import { fetchFromBucket } from '../lib/r2'
+import { isMenuData, liveMenuKey, readLiveMenu, writeLiveMenu, type MenuData } from '../lib/menu'
+import { resolveCatalog } from '../lib/catalog'
+import { changedItemIds, diffMenus } from '../lib/diff'
+import {
+  applyJsonPatch,
+  applyItemOperations,
+  PatchError,
+  type JsonPatchOperation,
+  type ItemOperation
+} from '../lib/patch'
+import { reconcileItems } from '../lib/reconcile'
+import { menuValidateOptions } from '../lib/validation'
+import { readBrandLocales } from '../lib/registry'
+import { validateMenu, localizeMenu, normalizeMenuPrices, type ValidationResult } from '@lookbook/menu-schema'
 
-interface MenuData {
-  meta?: { categoryOrder?: string[] }
-  items: Array<{
-    id: string
-    name: string
-    category: string
-    price?: number | string
-    description?: string
-    image?: string
-  }>
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers }
+  })
 }
 
-function isMenuData(data: unknown): data is MenuData {
-  if (!data || typeof data !== 'object') return false
-  const obj = data as Record<string, unknown>
-  return Array.isArray(obj.items)
+function versionConflict(currentVersionId: string | null): Response {
+  return json({
+    error: 'Version conflict: menu was changed since it was loaded',
+    currentVersionId
+  }, 409)
 }
 
-function json(data: unknown, status = 200): Response {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { 'Content-Type': 'application/json', ...corsHeaders }
-  })
+// Parsed request body, or undefined when it isn't valid JSON
+async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+function invalidJson(): Response {
+  return json({ error: 'Request body must be valid JSON' }, 400)
+}
+
+function invalidMenu(validation: ValidationResult): Response {
+  return json({
+    error: `Invalid menu data: ${validation.errors.length} error(s)`,
+    errors: validation.errors,
+    warnings: validation.warnings
+  }, 422)
 }
 
 /**
- * GET /api/menus/:brand/:store/:menu
+ * GET /api/menus/:brand/:store/:menu?lang=
  * Fetch {store}__{menu}.json from public bucket
+ *
+ * With ?lang= the menu is flattened to that locale (missing translations fall
+ * back to the default locale). Localized responses carry no ETag since they
+ * must not be written back. Catalog-linked items are resolved first.
  */
 export async function handleMenu(
   env: Env,
   brand: string,
   store: string,
-  menu: string
+  menu: string,
+  lang: string | null = null
 ): Promise<Response> {
   try {
-    const key = `${brand}/${store}__${menu}.json`
-    const data = await fetchFromBucket(env, key)
+    if (lang !== null) {
+      const [data, locales] = await Promise.all([
+        readLiveMenu(env, brand, store, menu),
+        readBrandLocales(env, brand)
+      ])
+      if (!locales.includes(lang)) {
+        return json({ error: `Unsupported language "${lang}" (available: ${locales.join(', ')})` }, 400)
+      }
+      if (!data) {
+        return json({ error: `Menu not found: ${brand}/${store}/${menu}` }, 404)
+      }
+      return json(localizeMenu(await resolveCatalog(env, brand, data), lang), 200, { 'Content-Language': lang })
+    }
+
+    const [data, versionId] = await Promise.all([
+      fetchFromBucket(env, liveMenuKey(brand, store, menu)),
+      getCurrentVersionId(env, brand, store, menu)
+    ])
 
     if (!data) {
       return json({ error: `Menu not found: ${brand}/${store}/${menu}` }, 404)
     }
 
-    return json(data)
+    const resolved = isMenuData(data) ? await resolveCatalog(env, brand, data) : data
+    return json(resolved, 200, versionId ? { ETag: `"${versionId}"` } : {})
   } catch (error) {
     console.error(`Error fetching menu ${brand}/${store}/${menu}:`, error)
     return json({ error: 'Failed to fetch menu' }, 500)
@@ -74,46 +133,154 @@ export async function handleMenuSave(
   menu: string
 ): Promise<Response> {
   try {
-    const rawData = await request.json()
+    const rawData = await readJsonBody(request)
+    if (rawData === undefined) return invalidJson()
+
+    const validation = validateMenu(rawData, await menuValidateOptions(env, brand, store))
+    if (!validation.valid) {
+      return invalidMenu(validation)
+    }
+
+    const menuData = rawData as MenuData
 
-    // Validate basic structure
-    if (!isMenuData(rawData)) {
-      return json({ error: 'Invalid menu data: must have items array' }, 400)
+    // Reject stale writes
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    if (!precondition.ok) {
+      return versionConflict(precondition.currentVersionId)
     }
 
-    const menuData = rawData
+    const previous = await readLiveMenu(env, brand, store, menu)
 
     // Write version snapshot and update live
-    const versionId = await writeVersion(env, brand, store, menu, menuData, 'edit', auth.keyId)
+    const versionId = await writeVersion(env, brand, store, menu, menuData, 'edit', auth.keyId, {}, precondition.expectedVersionId)
 
     // Append audit log
     await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
       type: 'edit',
       versionId,
-      keyId: auth.keyId,
-      itemCount: menuData.items.length
+      itemCount: menuData.items.length,
+      changedItemIds: changedItemIds(previous, menuData)
     })
 
     // Write to live (public bucket)
-    const liveKey = `${brand}/${store}__${menu}.json`
-    await env.MENU_BUCKET.put(liveKey, JSON.stringify(menuData, null, 2), {
-      httpMetadata: { contentType: 'application/json' }
-    })
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, menuData, versionId)
 
     return json({
       success: true,
       versionId,
-      liveUrl: `${env.R2_PUBLIC_URL}/${liveKey}`
-    })
+      liveUrl,
+      warnings: validation.warnings
+    }, 200, { ETag: `"${versionId}"` })
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
     console.error(`Error saving menu ${brand}/${store}/${menu}:`, error)
     return json({ error: 'Failed to save menu' }, 500)
   }
 }
 
+/**
+ * PATCH /api/menus/:brand/:store/:menu
+ * Apply a partial update to the live menu (patch type)
+ *
+ * Body is either an RFC 6902 JSON Patch array, or { operations: [...] }
+ * with upsertItem / deleteItem / moveItem / setCategoryOrder operations.
+ */
+export async function handleMenuPatch(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const body = await readJsonBody(request)
+    if (body === undefined) return invalidJson()
+
+    // Reject stale writes
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    if (!precondition.ok) {
+      return versionConflict(precondition.currentVersionId)
+    }
+
+    const previous = await readLiveMenu(env, brand, store, menu)
+    if (!previous) {
+      return json({ error: `Menu not found: ${brand}/${store}/${menu}` }, 404)
+    }
+
+    let patched: unknown
+    let movedItemIds: string[] = []
+
+    try {
+      if (Array.isArray(body)) {
+        patched = applyJsonPatch(previous, body as JsonPatchOperation[])
+      } else if (body && Array.isArray((body as { operations?: unknown }).operations)) {
+        const result = applyItemOperations(previous, (body as { operations: ItemOperation[] }).operations)
+        patched = result.menu
+        movedItemIds = result.movedItemIds
+      } else {
+        return json({ error: 'Invalid patch: expected a JSON Patch array or { operations: [...] }' }, 400)
+      }
+    } catch (error) {
+      if (error instanceof PatchError) {
+        return json({ error: `Invalid patch: ${error.message}`, operation: error.index }, 422)
+      }
+      throw error
+    }
+
+    const validation = validateMenu(patched, await menuValidateOptions(env, brand, store))
+    if (!validation.valid) {
+      return invalidMenu(validation)
+    }
+
+    const menuData = patched as MenuData
+    const changed = [...new Set([...changedItemIds(previous, menuData), ...movedItemIds])]
+
+    // Write version snapshot
+    const versionId = await writeVersion(env, brand, store, menu, menuData, 'patch', auth.keyId, {
+      changedItemIds: changed
+    }, precondition.expectedVersionId)
+
+    // Append audit log
+    await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
+      type: 'patch',
+      versionId,
+      itemCount: menuData.items.length,
+      changedItemIds: changed
+    })
+
+    // Write to live (public bucket)
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, menuData, versionId)
+
+    return json({
+      success: true,
+      versionId,
+      changedItemIds: changed,
+      liveUrl,
+      warnings: validation.warnings
+    }, 200, { ETag: `"${versionId}"` })
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
+    console.error(`Error patching menu ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to patch menu' }, 500)
+  }
+}
+
 /**
  * POST /api/menus/:brand/:store/:menu/upload
  * Upload full menu JSON (upload type)
+ *
+ * Item ids are reconciled against the live menu (see lib/reconcile.ts) and
+ * legacy number/string prices are converted to the store's currency.
+ * With ?dryRun=true nothing is written; the response carries the reconciled
+ * menu, report and diff against live so the client can confirm by uploading
+ * that menu.
  */
 export async function handleMenuUpload(
   request: Request,
@@ -124,38 +291,69 @@ export async function handleMenuUpload(
   menu: string
 ): Promise<Response> {
   try {
-    const rawData = await request.json()
+    const rawData = await readJsonBody(request)
+    if (rawData === undefined) return invalidJson()
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true'
+    const options = await menuValidateOptions(env, brand, store)
 
-    // Validate basic structure
-    if (!isMenuData(rawData)) {
-      return json({ error: 'Invalid menu data: must have items array' }, 400)
+    const incomingValidation = validateMenu(rawData, { ...options, reconcileIds: true })
+    if (!incomingValidation.valid) {
+      return invalidMenu(incomingValidation)
     }
 
-    const menuData = rawData
+    const previous = await readLiveMenu(env, brand, store, menu)
+    const { menu: reconciled, report } = reconcileItems(previous, rawData as MenuData)
+
+    // Uploaded files often carry "$12.50"-style prices; store them as Money
+    const { menu: menuData } = normalizeMenuPrices(reconciled, options.currency)
+
+    const validation = validateMenu(menuData, options)
+    if (!validation.valid) {
+      return invalidMenu(validation)
+    }
+
+    if (dryRun) {
+      return json({
+        dryRun: true,
+        reconciliation: report,
+        diff: diffMenus(previous || { items: [] }, menuData),
+        menu: menuData,
+        warnings: validation.warnings
+      })
+    }
+
+    // Reject stale writes
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    if (!precondition.ok) {
+      return versionConflict(precondition.currentVersionId)
+    }
 
     // Write version snapshot
-    const versionId = await writeVersion(env, brand, store, menu, menuData, 'upload', auth.keyId)
+    const versionId = await writeVersion(env, brand, store, menu, menuData, 'upload', auth.keyId, {}, precondition.expectedVersionId)
 
     // Append audit log
     await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
       type: 'upload',
       versionId,
-      keyId: auth.keyId,
-      itemCount: menuData.items.length
+      itemCount: menuData.items.length,
+      changedItemIds: changedItemIds(previous, menuData)
     })
 
     // Write to live (public bucket)
-    const liveKey = `${brand}/${store}__${menu}.json`
-    await env.MENU_BUCKET.put(liveKey, JSON.stringify(menuData, null, 2), {
-      httpMetadata: { contentType: 'application/json' }
-    })
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, menuData, versionId)
 
     return json({
       success: true,
       versionId,
-      liveUrl: `${env.R2_PUBLIC_URL}/${liveKey}`
-    })
+      liveUrl,
+      reconciliation: report,
+      warnings: validation.warnings
+    }, 200, { ETag: `"${versionId}"` })
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
     console.error(`Error uploading menu ${brand}/${store}/${menu}:`, error)
     return json({ error: 'Failed to upload menu' }, 500)
   }
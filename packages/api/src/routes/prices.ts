@@ -0,0 +1,67 @@
+/**
+ * Price migration route handler - Admin endpoint to convert legacy prices
+ *
+ * POST /api/admin/prices/migrate
+ * Body: { dryRun?: boolean, cursor?: string } - repeat with the report's
+ * nextCursor until it is null
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import { migratePrices, parsePriceMigrationCursor } from '../lib/prices'
+
+interface MigratePricesRequest {
+  dryRun?: boolean
+  cursor?: string
+}
+
+/**
+ * POST /api/admin/prices/migrate
+ * Convert legacy number/string prices to { amount, currency }. Defaults to
+ * a dry run unless the body explicitly sets { "dryRun": false }.
+ */
+export async function handleMigratePrices(
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  // Rewrites every brand's menus
+  if (!auth.isSuperAdmin) {
+    return json({ error: 'Forbidden: super-admin access required' }, 403)
+  }
+
+  try {
+    let body: MigratePricesRequest = {}
+    const text = await request.text()
+    if (text) {
+      body = JSON.parse(text)
+    }
+
+    if (body.cursor !== undefined && (typeof body.cursor !== 'string' || !parsePriceMigrationCursor(body.cursor))) {
+      return json({ error: '"cursor" must be a nextCursor from an earlier migration report' }, 400)
+    }
+
+    const report = await migratePrices(env, { dryRun: body.dryRun !== false, cursor: body.cursor })
+
+    console.log(`[prices] Migration: dryRun=${report.dryRun}, updated=${report.totals.updated}, converted=${report.totals.converted}, failed=${report.failed.length}, nextCursor=${report.nextCursor}`)
+
+    return json(report)
+  } catch (error) {
+    console.error('[prices] Error migrating prices:', error)
+    return json({
+      error: 'Failed to migrate prices',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders
+    }
+  })
+}
@@ -0,0 +1,141 @@
+/**
+ * Printable menu routes
+ * - GET /api/menus/:brand/:store/:menu/pdf?template=&photos=&size=&version=&lang= - menu as PDF (auth required)
+ *
+ * Templates are "one-page" (default) and "multi-page" (see lib/print.ts).
+ * Photos default on for multi-page and off for one-page; size is "letter"
+ * (default) or "a4". With ?version= a snapshot is printed instead of the
+ * live menu. The brand logo is read from {brand}/images/logo.*.
+ * Photos are capped by file size and by pixel count (read from the image
+ * header), each and in total, so one request cannot exhaust memory.
+ */
+
+import type { Env } from '../index'
+import { corsHeaders } from '../middleware/cors'
+import { fetchFromBucket } from '../lib/r2'
+import { isMenuData, menuSections, readLiveMenu, type MenuData } from '../lib/menu'
+import { getVersion } from '../lib/versioning'
+import { resolveCatalog } from '../lib/catalog'
+import { storeConfigKey } from '../lib/stores'
+import { brandRegistryKey, readBrandLocales } from '../lib/registry'
+import { readTagVocabulary } from '../lib/tags'
+import { brandImageKey, readBrandLogo } from '../lib/images'
+import { PAGE_SIZES, PRINT_TEMPLATES, renderMenuPdf, type PageSize, type PrintTemplate } from '../lib/print'
+import { imageDimensions } from '../lib/pdf'
+import { localizeMenu, type StoreConfig } from '@lookbook/menu-schema'
+
+// Photos larger than this are left out, as are any past the total budget
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024
+const MAX_TOTAL_PHOTO_BYTES = 24 * 1024 * 1024
+const MAX_PHOTO_PIXELS = 2_000_000
+const MAX_TOTAL_PHOTO_PIXELS = 16_000_000
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+}
+
+async function readPhotos(env: Env, brand: string, menu: MenuData): Promise<Map<string, ArrayBuffer>> {
+  const photos = new Map<string, ArrayBuffer>()
+  const files = new Set(menuSections(menu).flatMap(([, items]) => items.flatMap(item => item.image ? [item.image] : [])))
+  let total = 0
+  let totalPixels = 0
+
+  for (const file of files) {
+    const object = await env.MENU_BUCKET.get(brandImageKey(brand, file))
+    if (!object) continue
+    if (object.size > MAX_PHOTO_BYTES || total + object.size > MAX_TOTAL_PHOTO_BYTES) {
+      await object.body.cancel()
+      continue
+    }
+
+    const bytes = await object.arrayBuffer()
+    const size = imageDimensions(bytes)
+    const pixels = size ? size.width * size.height : 0
+    if (!size || pixels > MAX_PHOTO_PIXELS || totalPixels + pixels > MAX_TOTAL_PHOTO_PIXELS) continue
+
+    total += object.size
+    totalPixels += pixels
+    photos.set(file, bytes)
+  }
+  return photos
+}
+
+/**
+ * GET /api/menus/:brand/:store/:menu/pdf
+ * Render the live menu (or a version snapshot) as a printable PDF
+ */
+export async function handleMenuPdf(
+  url: URL,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  const template = (url.searchParams.get('template') || 'one-page') as PrintTemplate
+  const pageSize = (url.searchParams.get('size') || 'letter') as PageSize
+  const photosParam = url.searchParams.get('photos')
+  const versionId = url.searchParams.get('version')
+  const lang = url.searchParams.get('lang')
+
+  if (!PRINT_TEMPLATES.includes(template)) {
+    return json({ error: `Unknown template "${template}" (available: ${PRINT_TEMPLATES.join(', ')})` }, 400)
+  }
+  if (!(pageSize in PAGE_SIZES)) {
+    return json({ error: `Unknown page size "${pageSize}" (available: ${Object.keys(PAGE_SIZES).join(', ')})` }, 400)
+  }
+
+  try {
+    const [snapshot, config, registry, locales, tags] = await Promise.all([
+      versionId ? getVersion(env, brand, store, menu, versionId) : readLiveMenu(env, brand, store, menu),
+      fetchFromBucket(env, storeConfigKey(brand, store)) as Promise<StoreConfig | null>,
+      fetchFromBucket(env, brandRegistryKey(brand)) as Promise<{ brand?: { name?: string } } | null>,
+      readBrandLocales(env, brand),
+      readTagVocabulary(env, brand)
+    ])
+
+    if (lang !== null && !locales.includes(lang)) {
+      return json({ error: `Unsupported language "${lang}" (available: ${locales.join(', ')})` }, 400)
+    }
+    if (!isMenuData(snapshot)) {
+      return json({ error: versionId ? `Version not found: ${versionId}` : `Menu not found: ${brand}/${store}/${menu}` }, 404)
+    }
+    if (!config) {
+      return json({ error: `Store not found: ${brand}/${store}` }, 404)
+    }
+
+    const resolved = await resolveCatalog(env, brand, snapshot)
+    const data = lang !== null ? localizeMenu(resolved, lang) : resolved
+    const photos = photosParam === null ? template === 'multi-page' : photosParam === 'true' || photosParam === '1'
+
+    const [logo, photoData] = await Promise.all([
+      readBrandLogo(env, brand),
+      photos ? readPhotos(env, brand, data) : new Map<string, ArrayBuffer>()
+    ])
+
+    const pdf = await renderMenuPdf({
+      brandName: registry?.brand?.name || brand,
+      store: config,
+      menuLabel: config.menus.find(entry => entry.id === menu)?.label || menu,
+      menu: data,
+      tags,
+      logo: logo?.data ?? null,
+      photos: photoData
+    }, { template, photos, pageSize })
+
+    const filename = `${brand}-${store}-${menu}${versionId ? `-${versionId}` : ''}.pdf`
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        ...corsHeaders
+      }
+    })
+  } catch (error) {
+    console.error(`Error rendering PDF for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to render PDF' }, 500)
+  }
+}
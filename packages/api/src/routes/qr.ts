@@ -0,0 +1,168 @@
+/**
+ * Menu QR code routes
+ * - GET /api/menus/:brand/:store/:menu/qr?format=&logo=&placement=&scale=&download= - QR code (SVG or PNG)
+ * - GET /api/stores/:brand/:store/qr-sheet?placements=&logo=&size= - printable sheet (PDF)
+ *
+ * Codes point at the public lookbook URL for the menu (see lib/qr.ts), with
+ * utm_content set to the placement (a table number, "window", ...). With
+ * ?logo=true the brand logo ({brand}/images/logo.*) is placed in the center
+ * and the code uses error correction level H. The sheet has one code per
+ * menu and placement (comma-separated; none gives one untracked code per menu).
+ */
+
+import type { Env } from '../index'
+import { corsHeaders } from '../middleware/cors'
+import { fetchFromBucket } from '../lib/r2'
+import { storeConfigKey } from '../lib/stores'
+import { brandRegistryKey } from '../lib/registry'
+import { readBrandLogo } from '../lib/images'
+import { PAGE_SIZES, type PageSize } from '../lib/print'
+import { encodeQr, menuPublicUrl, qrPng, qrSvg, type QrSheetEntry, renderQrSheet } from '../lib/qr'
+import type { StoreConfig } from '@lookbook/menu-schema'
+
+const QR_FORMATS = ['svg', 'png']
+
+// PNG pixels per module
+const DEFAULT_PNG_SCALE = 10
+const MAX_PNG_SCALE = 40
+
+// Codes per sheet request
+const MAX_SHEET_CODES = 240
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+}
+
+function flag(value: string | null): boolean {
+  return value === 'true' || value === '1'
+}
+
+// Lowercase slug for filenames
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * GET /api/menus/:brand/:store/:menu/qr
+ * QR code for a store menu's public URL
+ */
+export async function handleMenuQr(
+  url: URL,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  const format = url.searchParams.get('format') || 'svg'
+  const placement = url.searchParams.get('placement')?.trim() || undefined
+  const withLogo = flag(url.searchParams.get('logo'))
+  const scale = Number(url.searchParams.get('scale') || DEFAULT_PNG_SCALE)
+
+  if (!QR_FORMATS.includes(format)) {
+    return json({ error: `Unknown format "${format}" (available: ${QR_FORMATS.join(', ')})` }, 400)
+  }
+  if (!Number.isInteger(scale) || scale < 1 || scale > MAX_PNG_SCALE) {
+    return json({ error: `scale must be an integer from 1 to ${MAX_PNG_SCALE}` }, 400)
+  }
+
+  try {
+    const config = await fetchFromBucket(env, storeConfigKey(brand, store)) as StoreConfig | null
+    if (!config) {
+      return json({ error: `Store not found: ${brand}/${store}` }, 404)
+    }
+    if (!config.menus.some(entry => entry.id === menu)) {
+      return json({ error: `Menu not found: ${brand}/${store}/${menu}` }, 404)
+    }
+
+    const logo = withLogo ? await readBrandLogo(env, brand) : null
+    const code = encodeQr(menuPublicUrl(env, url.origin, brand, store, menu, { placement }), logo ? 'H' : 'M')
+    const filename = `${brand}-${store}-${menu}${placement ? `-${slug(placement)}` : ''}-qr.${format}`
+    const headers = {
+      'Content-Disposition': `${flag(url.searchParams.get('download')) ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+      ...corsHeaders
+    }
+
+    if (format === 'png') {
+      return new Response(await qrPng(code, scale, logo), {
+        headers: { 'Content-Type': 'image/png', ...headers }
+      })
+    }
+    return new Response(qrSvg(code, logo), {
+      headers: { 'Content-Type': 'image/svg+xml', ...headers }
+    })
+  } catch (error) {
+    console.error(`Error creating QR code for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to create QR code' }, 500)
+  }
+}
+
+/**
+ * GET /api/stores/:brand/:store/qr-sheet
+ * Printable PDF with QR codes for every menu of a store
+ */
+export async function handleStoreQrSheet(
+  url: URL,
+  env: Env,
+  brand: string,
+  store: string
+): Promise<Response> {
+  const pageSize = (url.searchParams.get('size') || 'letter') as PageSize
+  const withLogo = flag(url.searchParams.get('logo'))
+  const placements = [...new Set((url.searchParams.get('placements') || '')
+    .split(',')
+    .map(placement => placement.trim())
+    .filter(Boolean))]
+
+  if (!(pageSize in PAGE_SIZES)) {
+    return json({ error: `Unknown page size "${pageSize}" (available: ${Object.keys(PAGE_SIZES).join(', ')})` }, 400)
+  }
+
+  try {
+    const [config, registry, logo] = await Promise.all([
+      fetchFromBucket(env, storeConfigKey(brand, store)) as Promise<StoreConfig | null>,
+      fetchFromBucket(env, brandRegistryKey(brand)) as Promise<{ brand?: { name?: string } } | null>,
+      withLogo ? readBrandLogo(env, brand) : Promise.resolve(null)
+    ])
+
+    if (!config) {
+      return json({ error: `Store not found: ${brand}/${store}` }, 404)
+    }
+    if (config.menus.length === 0) {
+      return json({ error: `Store has no menus: ${brand}/${store}` }, 400)
+    }
+
+    const slots = placements.length > 0 ? placements : [undefined]
+    if (config.menus.length * slots.length > MAX_SHEET_CODES) {
+      return json({ error: `Too many codes (${config.menus.length * slots.length}, max ${MAX_SHEET_CODES})` }, 400)
+    }
+
+    const entries: QrSheetEntry[] = config.menus.flatMap(entry => slots.map(placement => ({
+      label: entry.label || entry.id,
+      placement,
+      code: encodeQr(menuPublicUrl(env, url.origin, brand, store, entry.id, { placement }), logo ? 'H' : 'M')
+    })))
+
+    const pdf = await renderQrSheet({
+      brandName: registry?.brand?.name || brand,
+      storeName: config.name,
+      logo,
+      entries
+    }, pageSize)
+
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${brand}-${store}-qr-codes.pdf"`,
+        'Cache-Control': 'no-store',
+        ...corsHeaders
+      }
+    })
+  } catch (error) {
+    console.error(`Error creating QR sheet for ${brand}/${store}:`, error)
+    return json({ error: 'Failed to create QR sheet' }, 500)
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Rendered menu routes (public, for search engines and link previews)
+ * - GET /menu/:brand/:store/:menu?lang= - menu as HTML with schema.org JSON-LD
+ *
+ * Pages are cached for 5 minutes and may be served stale for an hour while
+ * revalidating. The ETag is a hash of the rendered page, so it changes with
+ * the menu, store config, catalog, registry and tag vocabulary.
+ */
+
+import type { Env } from '../index'
+import { corsHeaders } from '../middleware/cors'
+import { fetchFromBucket } from '../lib/r2'
+import { readLiveMenu } from '../lib/menu'
+import { resolveCatalog } from '../lib/catalog'
+import { storeConfigKey } from '../lib/stores'
+import { brandRegistryKey, readBrandLocales } from '../lib/registry'
+import { readTagVocabulary } from '../lib/tags'
+import { renderMenuHtml } from '../lib/seo'
+import { sha256 } from '../lib/crypto'
+import { localizeMenu, type StoreConfig } from '@lookbook/menu-schema'
+
+const CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600'
+
+function html(body: string, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', ...corsHeaders, ...headers }
+  })
+}
+
+function errorPage(message: string, status: number): Response {
+  const escaped = message.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  return html(
+    `<!DOCTYPE html>\n<html><head><meta charset="utf-8"><meta name="robots" content="noindex"><title>${escaped}</title></head><body><p>${escaped}</p></body></html>\n`,
+    status,
+    { 'Cache-Control': 'no-store' }
+  )
+}
+
+/**
+ * GET /menu/:brand/:store/:menu?lang=
+ * Render the live menu; ?lang= selects a brand locale (default locale otherwise)
+ */
+export async function handleRenderMenu(
+  request: Request,
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const [data, config, registry, locales, tags] = await Promise.all([
+      readLiveMenu(env, brand, store, menu),
+      fetchFromBucket(env, storeConfigKey(brand, store)) as Promise<StoreConfig | null>,
+      fetchFromBucket(env, brandRegistryKey(brand)) as Promise<{ brand?: { name?: string } } | null>,
+      readBrandLocales(env, brand),
+      readTagVocabulary(env, brand)
+    ])
+
+    const lang = url.searchParams.get('lang') || locales[0]
+    if (!locales.includes(lang)) {
+      return errorPage(`Unsupported language "${lang}" (available: ${locales.join(', ')})`, 400)
+    }
+    if (!data || !config) {
+      return errorPage(`Menu not found: ${brand}/${store}/${menu}`, 404)
+    }
+
+    const resolved = localizeMenu(await resolveCatalog(env, brand, data), lang)
+    const body = renderMenuHtml({
+      brandName: registry?.brand?.name || brand,
+      store: config,
+      menuLabel: config.menus.find(entry => entry.id === menu)?.label || menu,
+      menu: resolved,
+      lang,
+      locales,
+      tags,
+      imageBaseUrl: `${env.R2_PUBLIC_URL}/${brand}/images`,
+      canonicalUrl: `${url.origin}/menu/${brand}/${store}/${menu}`
+    })
+
+    const etag = `"${await sha256(body)}"`
+    const headers = {
+      'Cache-Control': CACHE_CONTROL,
+      'Content-Language': lang,
+      'Vary': 'Accept-Encoding',
+      ETag: etag
+    }
+
+    if (request.headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ...corsHeaders, ...headers } })
+    }
+    return html(body, 200, headers)
+  } catch (error) {
+    console.error(`Error rendering menu ${brand}/${store}/${menu}:`, error)
+    return errorPage('Failed to render menu', 500)
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Retention route handler - Admin endpoint to run version garbage collection
+ *
+ * POST /api/admin/retention/run
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import { runRetention } from '../lib/retention'
+
+interface RunRetentionRequest {
+  dryRun?: boolean
+}
+
+/**
+ * POST /api/admin/retention/run
+ * Apply the version retention policy. Defaults to a dry run unless
+ * the body explicitly sets { "dryRun": false }.
+ */
+export async function handleRunRetention(
+  request: Request,
+  env: Env,
+  auth: AuthContext
+): Promise<Response> {
+  // Only super-admins can prune versions
+  if (!auth.isSuperAdmin) {
+    return json({ error: 'Forbidden: super-admin access required' }, 403)
+  }
+
+  try {
+    let body: RunRetentionRequest = {}
+    const text = await request.text()
+    if (text) {
+      body = JSON.parse(text)
+    }
+
+    const report = await runRetention(env, { dryRun: body.dryRun !== false })
+
+    console.log(`[retention] Manual run: dryRun=${report.dryRun}, removed=${report.totals.removed}, bytes=${report.totals.bytesRemoved}`)
+
+    return json(report)
+  } catch (error) {
+    console.error('[retention] Error running retention:', error)
+    return json({
+      error: 'Failed to run retention',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders
+    }
+  })
+}
@@ -0,0 +1,117 @@
+/**
+ * Scheduled publishing routes
+ * - POST /api/menus/:brand/:store/:menu/schedule - schedule a menu to go live at publishAt
+ * - GET /api/menus/:brand/:store/:menu/scheduled - list pending publishes
+ * - DELETE /api/menus/:brand/:store/:menu/scheduled/:id - cancel a pending publish
+ *
+ * Due publishes are promoted by the cron handler (see src/scheduled.ts).
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import type { MenuData } from '../lib/menu'
+import {
+  createScheduledPublish,
+  listScheduledPublishes,
+  cancelScheduledPublish
+} from '../lib/scheduling'
+import { menuValidateOptions } from '../lib/validation'
+import { validateMenu } from '@lookbook/menu-schema'
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+}
+
+/**
+ * POST /api/menus/:brand/:store/:menu/schedule
+ * Body: { publishAt: ISO timestamp, menu: MenuData }
+ */
+export async function handleSchedulePublish(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const body = await request.json() as { publishAt?: unknown; menu?: unknown }
+
+    if (typeof body.publishAt !== 'string' || Number.isNaN(Date.parse(body.publishAt))) {
+      return json({ error: '"publishAt" must be an ISO timestamp' }, 400)
+    }
+
+    const publishAt = new Date(body.publishAt)
+    if (publishAt.getTime() <= Date.now()) {
+      return json({ error: '"publishAt" must be in the future' }, 400)
+    }
+
+    const validation = validateMenu(body.menu, await menuValidateOptions(env, brand, store))
+    if (!validation.valid) {
+      return json({
+        error: `Invalid menu data: ${validation.errors.length} error(s)`,
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, 422)
+    }
+
+    const scheduled = await createScheduledPublish(
+      env,
+      brand,
+      store,
+      menu,
+      body.menu as MenuData,
+      publishAt.toISOString(),
+      auth
+    )
+
+    return json({ success: true, scheduled, warnings: validation.warnings }, 201)
+  } catch (error) {
+    console.error(`Error scheduling publish for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to schedule publish' }, 500)
+  }
+}
+
+/**
+ * GET /api/menus/:brand/:store/:menu/scheduled
+ */
+export async function handleListScheduled(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string
+): Promise<Response> {
+  try {
+    const scheduled = await listScheduledPublishes(env, brand, store, menu)
+    return json({ scheduled })
+  } catch (error) {
+    console.error(`Error listing scheduled publishes for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to list scheduled publishes' }, 500)
+  }
+}
+
+/**
+ * DELETE /api/menus/:brand/:store/:menu/scheduled/:id
+ */
+export async function handleCancelScheduled(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  id: string
+): Promise<Response> {
+  try {
+    const cancelled = await cancelScheduledPublish(env, brand, store, menu, id)
+    if (!cancelled) {
+      return json({ error: `Scheduled publish not found: ${id}` }, 404)
+    }
+    return json({ success: true, cancelled: id })
+  } catch (error) {
+    console.error(`Error cancelling scheduled publish ${id} for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to cancel scheduled publish' }, 500)
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Sold-out routes
+ * - POST /api/menus/:brand/:store/:menu/items/:itemId/sold-out - mark an item sold out or available
+ *
+ * Body: { soldOut: boolean, until?: ISO timestamp }
+ * Does not write a version snapshot (see lib/soldout.ts).
+ */
+
+import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
+import { corsHeaders } from '../middleware/cors'
+import { auditActor } from '../lib/audit'
+import { setItemSoldOut } from '../lib/soldout'
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  })
+}
+
+/**
+ * POST /api/menus/:brand/:store/:menu/items/:itemId/sold-out
+ */
+export async function handleItemSoldOut(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string,
+  itemId: string
+): Promise<Response> {
+  try {
+    const body = await request.json() as { soldOut?: unknown; until?: unknown }
+
+    if (typeof body.soldOut !== 'boolean') {
+      return json({ error: '"soldOut" must be a boolean' }, 400)
+    }
+
+    let until: string | undefined
+    if (body.until !== undefined && body.until !== null) {
+      if (typeof body.until !== 'string' || Number.isNaN(Date.parse(body.until))) {
+        return json({ error: '"until" must be an ISO timestamp' }, 400)
+      }
+      if (Date.parse(body.until) <= Date.now()) {
+        return json({ error: '"until" must be in the future' }, 400)
+      }
+      until = new Date(body.until).toISOString()
+    }
+
+    const item = await setItemSoldOut(env, brand, store, menu, itemId, body.soldOut, until, auditActor(request, auth))
+    if (!item) {
+      return json({ error: `Item not found: ${itemId} in ${brand}/${store}/${menu}` }, 404)
+    }
+
+    return json({
+      success: true,
+      itemId,
+      soldOut: item.soldOut === true,
+      soldOutUntil: item.soldOutUntil || null
+    })
+  } catch (error) {
+    console.error(`Error updating sold-out state for ${brand}/${store}/${menu} item ${itemId}:`, error)
+    return json({ error: 'Failed to update sold-out state' }, 500)
+  }
+}
@@ -1,11 +1,20 @@
 /**
  * Store routes
  * - GET /api/stores/:brand/:store - get store config
+ * - GET /api/stores/:brand/:store/active?at= - menus active now (or at an ISO time)
+ * - PUT /api/stores/:brand/:store - save store config (menus, timezone, currency, locale, availability)
  */
 
 import type { Env } from '../index'
 import { corsHeaders } from '../middleware/cors'
 import { fetchFromBucket } from '../lib/r2'
+import { menusPricedIn, storeConfigKey, storeCurrency } from '../lib/stores'
+import {
+  resolveActiveMenus,
+  validateStoreConfig,
+  DEFAULT_STORE_TIMEZONE,
+  type StoreConfig
+} from '@lookbook/menu-schema'
 
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -20,8 +29,7 @@ function json(data: unknown, status = 200): Response {
  */
 export async function handleStoreConfig(env: Env, brand: string, store: string): Promise<Response> {
   try {
-    const key = `${brand}/${store}.json`
-    const data = await fetchFromBucket(env, key)
+    const data = await fetchFromBucket(env, storeConfigKey(brand, store))
 
     if (!data) {
       return json({ error: `Store config not found: ${brand}/${store}` }, 404)
@@ -33,3 +41,107 @@ export async function handleStoreConfig(env: Env, brand: string, store: string):
     return json({ error: 'Failed to fetch store config' }, 500)
   }
 }
+
+/**
+ * GET /api/stores/:brand/:store/active?at=
+ * Resolve which menus are available at `at` (default now) in the store's timezone
+ */
+export async function handleActiveMenus(
+  url: URL,
+  env: Env,
+  brand: string,
+  store: string
+): Promise<Response> {
+  const atParam = url.searchParams.get('at')
+  if (atParam !== null && Number.isNaN(Date.parse(atParam))) {
+    return json({ error: '"at" must be an ISO timestamp' }, 400)
+  }
+  const at = atParam !== null ? new Date(atParam) : new Date()
+
+  try {
+    const data = await fetchFromBucket(env, storeConfigKey(brand, store))
+    if (!data) {
+      return json({ error: `Store config not found: ${brand}/${store}` }, 404)
+    }
+    if (!validateStoreConfig(data).valid) {
+      return json({ error: `Store config is invalid: ${brand}/${store}` }, 500)
+    }
+
+    const config = data as StoreConfig
+    const { local, active } = resolveActiveMenus(config, at)
+
+    return json({
+      store,
+      timezone: config.timezone || DEFAULT_STORE_TIMEZONE,
+      at: at.toISOString(),
+      local: {
+        date: local.date,
+        day: local.day,
+        time: `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`
+      },
+      active: active.map(({ id, label, file }) => ({ id, label, file }))
+    })
+  } catch (error) {
+    console.error(`Error resolving active menus for ${brand}/${store}:`, error)
+    return json({ error: 'Failed to resolve active menus' }, 500)
+  }
+}
+
+/**
+ * PUT /api/stores/:brand/:store
+ * Body: full store config; the slug must match the URL
+ * The currency cannot change while the store's menus (live, drafts or
+ * scheduled) have prices in the old one; they must be re-priced first.
+ */
+export async function handleStoreConfigSave(
+  request: Request,
+  env: Env,
+  brand: string,
+  store: string
+): Promise<Response> {
+  try {
+    const body = await request.json()
+
+    const validation = validateStoreConfig(body)
+    if (!validation.valid) {
+      return json({
+        error: `Invalid store config: ${validation.errors.length} error(s)`,
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, 422)
+    }
+
+    const config = body as StoreConfig
+    if (config.slug !== store) {
+      return json({ error: `Store slug "${config.slug}" does not match ${store}` }, 400)
+    }
+
+    const key = storeConfigKey(brand, store)
+    const existing = await fetchFromBucket(env, key) as StoreConfig | null
+    if (!existing) {
+      return json({ error: `Store config not found: ${brand}/${store}` }, 404)
+    }
+
+    const previousCurrency = storeCurrency(existing)
+    if (storeCurrency(config) !== previousCurrency) {
+      const menuIds = [...new Set([...(existing.menus || []), ...config.menus].map(entry => entry.id))]
+      const priced = await menusPricedIn(env, brand, store, menuIds, previousCurrency)
+      if (priced.length > 0) {
+        return json({
+          error: `Cannot change currency from ${previousCurrency} to ${storeCurrency(config)}: ` +
+            `menus still have ${previousCurrency} prices (${priced.join(', ')}); re-price them first`,
+          menus: priced
+        }, 409)
+      }
+    }
+
+    await env.MENU_BUCKET.put(key, JSON.stringify(config, null, 2), {
+      httpMetadata: { contentType: 'application/json' }
+    })
+
+    return json({ success: true, config, warnings: validation.warnings })
+  } catch (error) {
+    console.error(`Error saving store config for ${brand}/${store}:`, error)
+    return json({ error: 'Failed to save store config' }, 500)
+  }
+}
@@ -1,10 +1,28 @@
 /**
  * Version routes
  * - GET /api/versions/:brand/:store/:menu - get version history
+ * - GET /api/versions/:brand/:store/:menu/diff?from=&to= - item-level diff between two versions (auth required)
+ * - GET /api/versions/:brand/:store/:menu/:versionId - get a version snapshot (auth required)
+ * - POST /api/versions/:brand/:store/:menu/:versionId/restore - restore a version to live
+ *
+ * Restore checks an optional If-Match like other menu writes (see routes/menus.ts);
+ * without it the restore is not checked against newer live changes.
  */
 
 import type { Env } from '../index'
+import type { AuthContext } from '../middleware/auth'
 import { corsHeaders } from '../middleware/cors'
+import {
+  writeVersion,
+  getVersion,
+  checkVersionPrecondition,
+  VersionConflictError,
+  type Manifest
+} from '../lib/versioning'
+import { listScheduledPublishes } from '../lib/scheduling'
+import { appendAuditLog, auditActor } from '../lib/audit'
+import { isMenuData, readLiveMenu, writeLiveMenu } from '../lib/menu'
+import { diffMenus, changedItemIds } from '../lib/diff'
 
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -13,9 +31,16 @@ function json(data: unknown, status = 200): Response {
   })
 }
 
+function versionConflict(currentVersionId: string | null): Response {
+  return json({
+    error: 'Version conflict: menu was changed since it was loaded',
+    currentVersionId
+  }, 409)
+}
+
 /**
  * GET /api/versions/:brand/:store/:menu
- * Fetch version manifest from internal bucket
+ * Fetch version manifest from internal bucket, with pending scheduled publishes
  */
 export async function handleVersions(
   env: Env,
@@ -25,20 +50,158 @@ export async function handleVersions(
 ): Promise<Response> {
   try {
     const key = `_versions/${brand}/${store}__${menu}/manifest.json`
-    const object = await env.INTERNAL_BUCKET.get(key)
+    const [object, scheduled] = await Promise.all([
+      env.INTERNAL_BUCKET.get(key),
+      listScheduledPublishes(env, brand, store, menu)
+    ])
 
     if (!object) {
       // No versions yet, return empty
       return json({
         current: null,
-        versions: []
+        versions: [],
+        scheduled
       })
     }
 
-    const data = await object.json()
-    return json(data)
+    const data = await object.json<Manifest>()
+    return json({ ...data, scheduled })
   } catch (error) {
     console.error(`Error fetching versions for ${brand}/${store}/${menu}:`, error)
     return json({ error: 'Failed to fetch versions' }, 500)
   }
 }
+
+/**
+ * GET /api/versions/:brand/:store/:menu/diff?from=&to=
+ * Compare two version snapshots item-by-item
+ */
+export async function handleVersionDiff(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  from: string | null,
+  to: string | null
+): Promise<Response> {
+  if (!from || !to) {
+    return json({ error: 'Both "from" and "to" version ids are required' }, 400)
+  }
+
+  try {
+    const [before, after] = await Promise.all([
+      getVersion(env, brand, store, menu, from),
+      getVersion(env, brand, store, menu, to)
+    ])
+
+    if (!before) {
+      return json({ error: `Version not found: ${from}` }, 404)
+    }
+    if (!after) {
+      return json({ error: `Version not found: ${to}` }, 404)
+    }
+
+    if (!isMenuData(before) || !isMenuData(after)) {
+      return json({ error: 'Version snapshot is not a valid menu' }, 422)
+    }
+
+    return json({
+      from,
+      to,
+      ...diffMenus(before, after)
+    })
+  } catch (error) {
+    console.error(`Error diffing versions ${from}..${to} for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to diff versions' }, 500)
+  }
+}
+
+/**
+ * GET /api/versions/:brand/:store/:menu/:versionId
+ * Fetch a single version snapshot
+ */
+export async function handleVersionSnapshot(
+  env: Env,
+  brand: string,
+  store: string,
+  menu: string,
+  versionId: string
+): Promise<Response> {
+  try {
+    const snapshot = await getVersion(env, brand, store, menu, versionId)
+
+    if (!snapshot) {
+      return json({ error: `Version not found: ${versionId}` }, 404)
+    }
+
+    return json(snapshot)
+  } catch (error) {
+    console.error(`Error fetching version ${versionId} for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to fetch version' }, 500)
+  }
+}
+
+/**
+ * POST /api/versions/:brand/:store/:menu/:versionId/restore
+ * Republish a version snapshot to live (restore type)
+ */
+export async function handleVersionRestore(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  brand: string,
+  store: string,
+  menu: string,
+  sourceVersionId: string
+): Promise<Response> {
+  try {
+    const snapshot = await getVersion(env, brand, store, menu, sourceVersionId)
+
+    if (!snapshot) {
+      return json({ error: `Version not found: ${sourceVersionId}` }, 404)
+    }
+
+    if (!isMenuData(snapshot)) {
+      return json({ error: `Version ${sourceVersionId} is not a valid menu snapshot` }, 422)
+    }
+
+    // Reject restoring over live changes made since the history was loaded
+    const precondition = await checkVersionPrecondition(request, env, brand, store, menu)
+    if (!precondition.ok) {
+      return versionConflict(precondition.currentVersionId)
+    }
+
+    const previous = await readLiveMenu(env, brand, store, menu)
+
+    // Write version snapshot pointing back at its source
+    const versionId = await writeVersion(env, brand, store, menu, snapshot, 'restore', auth.keyId, {
+      sourceVersionId
+    }, precondition.expectedVersionId)
+
+    // Append audit log
+    await appendAuditLog(env, brand, store, menu, {
+      ...auditActor(request, auth),
+      type: 'restore',
+      versionId,
+      sourceVersionId,
+      itemCount: snapshot.items.length,
+      changedItemIds: changedItemIds(previous, snapshot)
+    })
+
+    // Write to live (public bucket)
+    const liveUrl = await writeLiveMenu(env, brand, store, menu, snapshot, versionId)
+
+    return json({
+      success: true,
+      versionId,
+      restoredFrom: sourceVersionId,
+      liveUrl
+    })
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return versionConflict(error.currentVersionId)
+    }
+    console.error(`Error restoring version ${sourceVersionId} for ${brand}/${store}/${menu}:`, error)
+    return json({ error: 'Failed to restore version' }, 500)
+  }
+}
@@ -17,6 +17,7 @@ import {
 } from '../lib/apify'
 import { createSupabaseClient } from '../lib/supabase'
 import { sha256, gzipCompress, generateClaimCode } from '../lib/crypto'
+import { modifierGroupsFromScraped } from '../lib/modifiers'
 
 /**
  * POST /api/integrations/apify/webhook
@@ -388,7 +389,9 @@ async function normalizeAndStoreStore(
         image_url: imageUrl,
         raw: {
           originalPrice: item.price,
-          options: item.options
+          options: item.options,
+          // Normalized MenuItem.modifierGroups for when the draft is claimed
+          modifierGroups: modifierGroupsFromScraped(item.options)
         }
       }).execute()
     }
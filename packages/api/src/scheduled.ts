@@ -0,0 +1,61 @@
+/**
+ * Scheduled (cron) handler for Lookbook Admin API
+ *
+ * Cron triggers are configured in wrangler.toml:
+ * - 0 3 * * * - daily maintenance (audit log compaction, version retention)
+ * - every 5 minutes - publish due scheduled menus, restore sold-out items
+ */
+
+import type { Env } from './index'
+import { compactAuditLogs } from './lib/audit'
+import { runRetention } from './lib/retention'
+import { publishDueSchedules } from './lib/scheduling'
+import { restoreDueSoldOutItems } from './lib/soldout'
+
+const DAILY_MAINTENANCE_CRON = '0 3 * * *'
+const SCHEDULED_PUBLISH_CRON = '*/5 * * * *'
+
+export async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+  // Each step runs on its own, so one failing doesn't skip the others
+  if (controller.cron === DAILY_MAINTENANCE_CRON) {
+    try {
+      const result = await compactAuditLogs(env)
+      console.log(`[cron] Compacted audit logs: days=${result.days}, events=${result.events}`)
+    } catch (error) {
+      console.error('[cron] Audit log compaction failed:', error)
+    }
+
+    try {
+      const report = await runRetention(env, { dryRun: env.RETENTION_DRY_RUN === 'true' })
+      console.log(`[cron] Version retention: dryRun=${report.dryRun}, removed=${report.totals.removed}, bytes=${report.totals.bytesRemoved}`)
+    } catch (error) {
+      console.error('[cron] Version retention failed:', error)
+    }
+    return
+  }
+
+  if (controller.cron === SCHEDULED_PUBLISH_CRON) {
+    const now = new Date(controller.scheduledTime)
+
+    try {
+      const result = await publishDueSchedules(env, now)
+      if (result.published > 0 || result.failed > 0) {
+        console.log(`[cron] Scheduled publishes: published=${result.published}, failed=${result.failed}`)
+      }
+    } catch (error) {
+      console.error('[cron] Scheduled publishes failed:', error)
+    }
+
+    try {
+      const restore = await restoreDueSoldOutItems(env, now)
+      if (restore.restored > 0 || restore.failed > 0) {
+        console.log(`[cron] Sold-out restores: restored=${restore.restored}, failed=${restore.failed}`)
+      }
+    } catch (error) {
+      console.error('[cron] Sold-out restores failed:', error)
+    }
+    return
+  }
+
+  console.log(`[cron] No handler for cron: ${controller.cron}`)
+}
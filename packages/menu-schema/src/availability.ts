@@ -0,0 +1,362 @@
+/**
+ * Store menu availability windows
+ *
+ * A store config ({brand}/{store}.json) lists its menus. Each menu may carry
+ * availability windows (days + local start/end time) evaluated in the
+ * store's timezone. Menus without availability are always active.
+ *
+ * Exceptions cover date ranges (holidays, events): while one applies it
+ * replaces the regular windows - closed, or open with its own windows.
+ * A window whose end is before its start runs past midnight (22:00-02:00).
+ */
+
+import type { ValidationIssue, ValidationResult } from './index'
+import { isValidCurrency, isValidLocale } from './money'
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+
+export type Weekday = typeof WEEKDAYS[number]
+
+export interface AvailabilityWindow {
+  days: Weekday[]
+  start: string // local time "HH:MM"
+  end: string // local time "HH:MM"; "24:00" allowed for end of day
+}
+
+export interface AvailabilityException {
+  from: string // "YYYY-MM-DD", inclusive
+  to: string // "YYYY-MM-DD", inclusive
+  label?: string // e.g. "Thanksgiving"
+  closed?: boolean
+  windows?: AvailabilityWindow[] // special hours when not closed
+}
+
+export interface MenuAvailability {
+  windows: AvailabilityWindow[]
+  exceptions?: AvailabilityException[]
+}
+
+export interface StoreMenuEntry {
+  id: string
+  label: string
+  file: string
+  categoryOrder?: string[]
+  availability?: MenuAvailability
+}
+
+// Postal address shown on rendered menus (see the API's lib/seo.ts)
+export interface StoreAddress {
+  street: string
+  city: string
+  region?: string // state or province
+  postalCode?: string
+  country?: string // ISO 3166-1 alpha-2, e.g. "US"
+}
+
+export interface StoreConfig {
+  slug: string
+  name: string
+  address?: StoreAddress
+  telephone?: string // e.g. "+1 619 555 0100"
+  timezone?: string // IANA zone, e.g. "America/Los_Angeles"
+  currency?: string // ISO 4217 code of menu prices, e.g. "USD"; see money.ts
+  locale?: string // BCP 47 locale prices are formatted in, e.g. "en-US"
+  menus: StoreMenuEntry[]
+}
+
+export interface LocalTime {
+  date: string // "YYYY-MM-DD"
+  day: Weekday
+  minutes: number // since local midnight
+}
+
+// Stores without a timezone are evaluated in UTC
+export const DEFAULT_STORE_TIMEZONE = 'UTC'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wall-clock date, weekday and time of an instant in a timezone
+ */
+export function localTimeAt(at: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    day: part('weekday').toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  }
+}
+
+/**
+ * Previous calendar date, for the after-midnight part of overnight windows
+ */
+function previousDate(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - 1)
+  return d.toISOString().slice(0, 10)
+}
+
+function previousDay(day: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7]
+}
+
+function exceptionFor(availability: MenuAvailability, date: string): AvailabilityException | undefined {
+  return availability.exceptions?.find(exception => exception.from <= date && date <= exception.to)
+}
+
+/**
+ * Windows in effect on a local date (exception windows replace regular ones)
+ */
+function windowsOn(availability: MenuAvailability, date: string): AvailabilityWindow[] {
+  const exception = exceptionFor(availability, date)
+  if (!exception) return availability.windows
+  return exception.closed ? [] : exception.windows || []
+}
+
+/**
+ * Whether a menu is available at a local time
+ */
+export function isAvailableAt(availability: MenuAvailability | undefined, local: LocalTime): boolean {
+  if (!availability) return true
+
+  // Same-day part of each window
+  const today = windowsOn(availability, local.date).some(window => {
+    if (!window.days.includes(local.day)) return false
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+    return end > start
+      ? local.minutes >= start && local.minutes < end
+      : local.minutes >= start
+  })
+  if (today) return true
+
+  // After-midnight part of yesterday's overnight windows
+  const yesterday = previousDay(local.day)
+  return windowsOn(availability, previousDate(local.date)).some(window => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+    return end < start && window.days.includes(yesterday) && local.minutes < end
+  })
+}
+
+/**
+ * Menus of a store that are active at an instant
+ */
+export function resolveActiveMenus(config: StoreConfig, at: Date): { local: LocalTime; active: StoreMenuEntry[] } {
+  const local = localTimeAt(at, config.timezone || DEFAULT_STORE_TIMEZONE)
+  return {
+    local,
+    active: config.menus.filter(menu => isAvailableAt(menu.availability, local))
+  }
+}
+
+function validateWindows(windows: unknown, path: string, errors: ValidationIssue[]): void {
+  if (!Array.isArray(windows)) {
+    errors.push({ path, message: 'must be an array' })
+    return
+  }
+
+  windows.forEach((window, index) => {
+    const base = `${path}/${index}`
+    if (!isObject(window)) {
+      errors.push({ path: base, message: 'must be an object' })
+      return
+    }
+    if (
+      !Array.isArray(window.days) ||
+      window.days.length === 0 ||
+      window.days.some(day => !WEEKDAYS.includes(day as Weekday))
+    ) {
+      errors.push({ path: `${base}/days`, message: `must be a non-empty array of ${WEEKDAYS.join(', ')}` })
+    }
+    for (const field of ['start', 'end']) {
+      if (typeof window[field] !== 'string' || !TIME_PATTERN.test(window[field] as string)) {
+        errors.push({ path: `${base}/${field}`, message: 'must be a time "HH:MM"' })
+      }
+    }
+    if (window.start === window.end) {
+      errors.push({ path: `${base}/end`, message: 'must differ from start' })
+    }
+    if (window.start === '24:00') {
+      errors.push({ path: `${base}/start`, message: 'must be before 24:00' })
+    }
+  })
+}
+
+function validateAvailability(availability: unknown, path: string, errors: ValidationIssue[]): void {
+  if (!isObject(availability)) {
+    errors.push({ path, message: 'must be an object' })
+    return
+  }
+
+  validateWindows(availability.windows, `${path}/windows`, errors)
+
+  if (availability.exceptions === undefined) return
+  if (!Array.isArray(availability.exceptions)) {
+    errors.push({ path: `${path}/exceptions`, message: 'must be an array' })
+    return
+  }
+
+  availability.exceptions.forEach((exception, index) => {
+    const base = `${path}/exceptions/${index}`
+    if (!isObject(exception)) {
+      errors.push({ path: base, message: 'must be an object' })
+      return
+    }
+    for (const field of ['from', 'to']) {
+      const value = exception[field]
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push({ path: `${base}/${field}`, message: 'must be a date "YYYY-MM-DD"' })
+      }
+    }
+    if (typeof exception.from === 'string' && typeof exception.to === 'string' && exception.from > exception.to) {
+      errors.push({ path: `${base}/to`, message: 'must not be before "from"' })
+    }
+    if (exception.label !== undefined && typeof exception.label !== 'string') {
+      errors.push({ path: `${base}/label`, message: 'must be a string' })
+    }
+    if (exception.closed !== undefined && typeof exception.closed !== 'boolean') {
+      errors.push({ path: `${base}/closed`, message: 'must be a boolean' })
+    }
+    if (exception.windows !== undefined) {
+      validateWindows(exception.windows, `${base}/windows`, errors)
+    } else if (exception.closed !== true) {
+      errors.push({ path: base, message: 'must be "closed" or have special-hours "windows"' })
+    }
+  })
+}
+
+function validateAddress(address: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(address)) {
+    errors.push({ path: '/address', message: 'must be an object' })
+    return
+  }
+  for (const field of ['street', 'city']) {
+    if (!isNonEmptyString(address[field])) {
+      errors.push({ path: `/address/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)` })
+    }
+  }
+  for (const field of ['region', 'postalCode']) {
+    if (address[field] !== undefined && !isNonEmptyString(address[field])) {
+      errors.push({ path: `/address/${field}`, message: 'must be a non-empty string' })
+    }
+  }
+  if (address.country !== undefined && (typeof address.country !== 'string' || !/^[A-Z]{2}$/.test(address.country))) {
+    errors.push({ path: '/address/country', message: 'must be a two-letter country code, e.g. "US"' })
+  }
+}
+
+/**
+ * Validate a store config document, including menu availability
+ */
+export function validateStoreConfig(data: unknown): ValidationResult {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'store config must be an object' })
+    return { valid: false, errors, warnings }
+  }
+
+  for (const field of ['slug', 'name']) {
+    if (!isNonEmptyString(data[field])) {
+      errors.push({ path: `/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)` })
+    }
+  }
+
+  if (data.timezone !== undefined) {
+    if (typeof data.timezone !== 'string' || !isValidTimezone(data.timezone)) {
+      errors.push({ path: '/timezone', message: `unknown timezone "${String(data.timezone)}" (expected e.g. "America/New_York")` })
+    }
+  }
+
+  if (data.currency !== undefined) {
+    if (typeof data.currency !== 'string' || !isValidCurrency(data.currency)) {
+      errors.push({ path: '/currency', message: `unknown currency "${String(data.currency)}" (expected an ISO 4217 code, e.g. "USD")` })
+    }
+  }
+
+  if (data.locale !== undefined) {
+    if (typeof data.locale !== 'string' || !isValidLocale(data.locale)) {
+      errors.push({ path: '/locale', message: `unknown locale "${String(data.locale)}" (expected e.g. "en-US")` })
+    }
+  }
+
+  if (data.address !== undefined) {
+    validateAddress(data.address, errors)
+  }
+
+  if (data.telephone !== undefined && !isNonEmptyString(data.telephone)) {
+    errors.push({ path: '/telephone', message: 'must be a non-empty string' })
+  }
+
+  if (!Array.isArray(data.menus)) {
+    errors.push({ path: '/menus', message: 'missing "menus" array' })
+    return { valid: false, errors, warnings }
+  }
+
+  const ids = new Set<string>()
+  let hasAvailability = false
+  data.menus.forEach((menu, index) => {
+    const base = `/menus/${index}`
+    if (!isObject(menu)) {
+      errors.push({ path: base, message: 'must be an object' })
+      return
+    }
+    for (const field of ['id', 'label', 'file']) {
+      if (!isNonEmptyString(menu[field])) {
+        errors.push({ path: `${base}/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)` })
+      }
+    }
+    if (isNonEmptyString(menu.id)) {
+      if (ids.has(menu.id)) {
+        errors.push({ path: `${base}/id`, message: `duplicate menu id "${menu.id}"` })
+      }
+      ids.add(menu.id)
+    }
+    if (menu.availability !== undefined) {
+      hasAvailability = true
+      validateAvailability(menu.availability, `${base}/availability`, errors)
+    }
+  })
+
+  if (hasAvailability && data.timezone === undefined) {
+    warnings.push({ path: '/timezone', message: `no timezone set; availability is evaluated in ${DEFAULT_STORE_TIMEZONE}` })
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
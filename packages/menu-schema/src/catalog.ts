@@ -0,0 +1,159 @@
+/**
+ * Brand master catalog
+ *
+ * A brand keeps dishes once in its catalog ({brand}/catalog_{brand}.json).
+ * Store menu items link to a catalog item with `catalogId`; on read, every
+ * catalog field is taken from the catalog unless the store lists it in the
+ * item's `overrides`:
+ *   { "id": "burger", "catalogId": "burger", "category": "Mains",
+ *     "overrides": ["price"], "price": { "amount": 1400, "currency": "USD" } }
+ *
+ * Store menus still hold a full copy of each linked item, so a menu whose
+ * catalog item disappears keeps its last resolved values. Store-only state
+ * (soldOut, available) is never inherited.
+ */
+
+import type { ValidationIssue } from './index'
+
+// Inherited from the catalog item unless overridden
+export const CATALOG_ITEM_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'price',
+  'variants',
+  'image',
+  'modifierGroups',
+  'dietary',
+  'allergens',
+  'spiceLevel',
+  'translations'
+] as const
+
+// Fields a store may override on a linked item
+export const CATALOG_OVERRIDE_FIELDS = ['price', 'variants', 'image'] as const
+
+export type CatalogItemField = typeof CATALOG_ITEM_FIELDS[number]
+
+export type CatalogOverrideField = typeof CATALOG_OVERRIDE_FIELDS[number]
+
+export interface BrandCatalog<Item extends { id: string } = CatalogMenuItem> {
+  items: Item[]
+}
+
+interface CatalogMenuItem {
+  id: string
+  name: string
+  category: string
+}
+
+interface LinkedItem {
+  catalogId?: string
+  overrides?: string[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Whether a field of a linked item comes from the catalog
+ */
+export function isInherited(item: LinkedItem, field: CatalogItemField): boolean {
+  return item.catalogId !== undefined && !(item.overrides || []).includes(field)
+}
+
+/**
+ * Effective item: inherited fields copied from the catalog item (removed when the catalog item lacks them)
+ */
+export function resolveCatalogItem<T extends LinkedItem>(item: T, catalogItem: object | undefined): T {
+  if (!item.catalogId || !catalogItem) return item
+
+  const source = catalogItem as Record<string, unknown>
+  const resolved = { ...item } as Record<string, unknown>
+  for (const field of CATALOG_ITEM_FIELDS) {
+    if (!isInherited(item, field)) continue
+    if (source[field] === undefined) {
+      delete resolved[field]
+    } else {
+      resolved[field] = source[field]
+    }
+  }
+  return resolved as T
+}
+
+/**
+ * Resolve every linked item of a menu against the brand catalog
+ */
+export function resolveMenuCatalog<M extends { items: LinkedItem[] }>(
+  menu: M,
+  catalog: BrandCatalog<{ id: string }> | null | undefined
+): M {
+  if (!catalog || !menu.items.some(item => item.catalogId)) return menu
+
+  const byId = new Map(catalog.items.map(item => [item.id, item]))
+  return {
+    ...menu,
+    items: menu.items.map(item => item.catalogId ? resolveCatalogItem(item, byId.get(item.catalogId)) : item)
+  }
+}
+
+/**
+ * Check an item's catalogId/overrides; with a catalog, the id must exist
+ */
+export function validateCatalogLink(
+  item: Record<string, unknown>,
+  base: string,
+  catalog: BrandCatalog<{ id: string }> | undefined,
+  errors: ValidationIssue[],
+  itemId: string | undefined
+): void {
+  const { catalogId, overrides } = item
+
+  if (catalogId !== undefined) {
+    if (typeof catalogId !== 'string' || catalogId.trim() === '') {
+      errors.push({ path: `${base}/catalogId`, message: 'must be a non-empty string', itemId })
+    } else if (catalog && !catalog.items.some(entry => entry.id === catalogId)) {
+      errors.push({ path: `${base}/catalogId`, message: `unknown catalog item "${catalogId}"`, itemId })
+    }
+  }
+
+  if (overrides === undefined) return
+  if (catalogId === undefined) {
+    errors.push({ path: `${base}/overrides`, message: 'only allowed on items with a "catalogId"', itemId })
+  }
+  if (!Array.isArray(overrides)) {
+    errors.push({ path: `${base}/overrides`, message: 'must be an array of field names', itemId })
+    return
+  }
+
+  const seen = new Set<unknown>()
+  overrides.forEach((field, index) => {
+    if (!CATALOG_OVERRIDE_FIELDS.includes(field as CatalogOverrideField)) {
+      errors.push({
+        path: `${base}/overrides/${index}`,
+        message: `cannot override "${String(field)}" (allowed: ${CATALOG_OVERRIDE_FIELDS.join(', ')})`,
+        itemId
+      })
+    } else if (seen.has(field)) {
+      errors.push({ path: `${base}/overrides/${index}`, message: `duplicate override "${field}"`, itemId })
+    }
+    seen.add(field)
+  })
+}
+
+/**
+ * Catalog items must not themselves link to the catalog
+ */
+export function validateCatalogItemShape(item: unknown, base: string, errors: ValidationIssue[]): void {
+  if (!isObject(item)) return
+  for (const field of ['catalogId', 'overrides', 'soldOut', 'soldOutUntil', 'available']) {
+    if (item[field] !== undefined) {
+      errors.push({
+        path: `${base}/${field}`,
+        message: `"${field}" is store-specific and not allowed in the catalog`,
+        itemId: typeof item.id === 'string' ? item.id : undefined
+      })
+    }
+  }
+}
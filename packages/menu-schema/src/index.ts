@@ -0,0 +1,639 @@
+/**
+ * Menu schema validation shared by the API and admin UI
+ *
+ * validateMenu() checks a parsed menu JSON document and returns structured
+ * issues, each with a JSON Pointer path (e.g. /items/3/price):
+ * - errors make the menu invalid (the API rejects it with 422)
+ * - warnings are reported but do not block saving
+ *
+ * Uploads pass { reconcileIds: true }: the server matches items to the live
+ * menu and assigns ids, so missing or duplicate ids are not errors there.
+ *
+ * Passing { tags } checks item dietary/allergen tags against the brand's
+ * vocabulary; without it only their shape is checked.
+ *
+ * Passing { currency } (the store's) rejects prices in any other currency.
+ *
+ * Passing { catalog } (the brand's) checks catalog links and validates linked
+ * items as resolved, i.e. with their inherited catalog fields.
+ *
+ * Store configs (timezone, currency, locale) and menu availability windows
+ * live in availability.ts; per-locale item and category text in
+ * translations.ts; price representation and formatting in money.ts; the
+ * brand catalog and per-store overrides in catalog.ts.
+ */
+
+import { validateItemTranslations, validateCategoryTranslations } from './translations'
+import { PRICE_PATTERN, countLegacyPrices, isValidCurrency, parsePrice } from './money'
+import {
+  resolveCatalogItem,
+  validateCatalogLink,
+  validateCatalogItemShape,
+  type BrandCatalog
+} from './catalog'
+
+export * from './availability'
+export * from './translations'
+export * from './money'
+export * from './catalog'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+  itemId?: string
+}
+
+export interface TagDefinition {
+  id: string // stored on items, e.g. "gluten-free"
+  label: string // shown to customers, e.g. "Gluten-Free"
+}
+
+/**
+ * Brand-configurable dietary/allergen vocabulary ({brand}/tags_{brand}.json)
+ */
+export interface TagVocabulary {
+  dietary: TagDefinition[]
+  allergens: TagDefinition[]
+  maxSpiceLevel: number
+}
+
+export interface ValidateOptions {
+  reconcileIds?: boolean
+  tags?: TagVocabulary
+  currency?: string
+  catalog?: BrandCatalog<{ id: string }>
+}
+
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+// Bare filename under {brand}/images/, no directories or URLs
+export const IMAGE_FILENAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.(jpe?g|png|webp|gif|avif)$/i
+
+// Tag ids: lowercase words joined by hyphens
+export const TAG_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+// Used until a brand saves its own vocabulary; allergens are the US major nine
+export const DEFAULT_TAG_VOCABULARY: TagVocabulary = {
+  dietary: [
+    { id: 'vegan', label: 'Vegan' },
+    { id: 'vegetarian', label: 'Vegetarian' },
+    { id: 'gluten-free', label: 'Gluten-Free' },
+    { id: 'dairy-free', label: 'Dairy-Free' },
+    { id: 'halal', label: 'Halal' },
+    { id: 'kosher', label: 'Kosher' }
+  ],
+  allergens: [
+    { id: 'milk', label: 'Milk' },
+    { id: 'eggs', label: 'Eggs' },
+    { id: 'fish', label: 'Fish' },
+    { id: 'shellfish', label: 'Shellfish' },
+    { id: 'tree-nuts', label: 'Tree Nuts' },
+    { id: 'peanuts', label: 'Peanuts' },
+    { id: 'wheat', label: 'Wheat' },
+    { id: 'soy', label: 'Soy' },
+    { id: 'sesame', label: 'Sesame' }
+  ],
+  maxSpiceLevel: 3
+}
+
+// Item fields holding image filenames
+export const IMAGE_FIELDS = ['image', 'gif', 'storeImage', 'expectedImage'] as const
+
+/**
+ * Every price an item can be ordered at, in major units: its variant prices, or its base price
+ */
+export function itemPrices(item: { price?: unknown; variants?: unknown }): number[] {
+  const sources = Array.isArray(item.variants) && item.variants.length > 0
+    ? item.variants.map(variant => isObject(variant) ? variant.price : undefined)
+    : [item.price]
+  return sources.map(parsePrice).filter((price): price is number => price !== null)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+/**
+ * Check a price value; empty strings count as "no price"
+ * Money amounts may be negative only for modifier deltas.
+ */
+function priceError(price: unknown, options: ValidateOptions, allowNegative = false): string | null {
+  if (isObject(price)) {
+    const { amount, currency } = price
+    if (typeof currency !== 'string' || !isValidCurrency(currency)) {
+      return `invalid currency "${String(currency)}" (expected an ISO 4217 code, e.g. "USD")`
+    }
+    if (options.currency && currency !== options.currency) {
+      return `currency "${currency}" does not match the store currency "${options.currency}"`
+    }
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || (!allowNegative && amount < 0)) {
+      return allowNegative
+        ? 'amount must be an integer in minor units (e.g. 150 for 1.50)'
+        : 'amount must be a non-negative integer in minor units (e.g. 1250 for 12.50)'
+    }
+    return null
+  }
+  if (typeof price === 'number') {
+    return Number.isFinite(price) && price >= 0 ? null : 'must be a non-negative number'
+  }
+  if (typeof price === 'string') {
+    return price === '' || PRICE_PATTERN.test(price.trim())
+      ? null
+      : `invalid price format "${price}" (expected e.g. "12.50")`
+  }
+  return 'must be { amount, currency }, or a legacy number or string'
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Check an item's modifier groups (e.g. "Size", "Add-ons")
+ */
+function validateModifierGroups(
+  groups: unknown,
+  base: string,
+  errors: ValidationIssue[],
+  itemId: string | undefined,
+  options: ValidateOptions
+): void {
+  if (!Array.isArray(groups)) {
+    errors.push({ path: base, message: 'must be an array', itemId })
+    return
+  }
+
+  const groupIds = new Set<string>()
+  groups.forEach((group, groupIndex) => {
+    const path = `${base}/${groupIndex}`
+    if (!isObject(group)) {
+      errors.push({ path, message: 'must be an object', itemId })
+      return
+    }
+
+    for (const field of ['id', 'name']) {
+      if (!isNonEmptyString(group[field])) {
+        errors.push({ path: `${path}/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)`, itemId })
+      }
+    }
+    if (isNonEmptyString(group.id)) {
+      if (groupIds.has(group.id)) {
+        errors.push({ path: `${path}/id`, message: `duplicate modifier group id "${group.id}"`, itemId })
+      }
+      groupIds.add(group.id)
+    }
+
+    if (typeof group.required !== 'boolean') {
+      errors.push({ path: `${path}/required`, message: 'must be a boolean', itemId })
+    }
+
+    const min = group.minSelections
+    const max = group.maxSelections
+    if (!isNonNegativeInteger(min)) {
+      errors.push({ path: `${path}/minSelections`, message: 'must be a non-negative integer', itemId })
+    }
+    if (!isNonNegativeInteger(max) || max === 0) {
+      errors.push({ path: `${path}/maxSelections`, message: 'must be a positive integer', itemId })
+    }
+    if (isNonNegativeInteger(min) && isNonNegativeInteger(max) && min > max) {
+      errors.push({ path: `${path}/minSelections`, message: `must not exceed maxSelections (${max})`, itemId })
+    }
+    if (group.required === true && min === 0) {
+      errors.push({ path: `${path}/minSelections`, message: 'required groups must have minSelections of at least 1', itemId })
+    }
+    if (group.required === false && isNonNegativeInteger(min) && min > 0) {
+      errors.push({ path: `${path}/required`, message: `must be true when minSelections is ${min}`, itemId })
+    }
+
+    if (!Array.isArray(group.options) || group.options.length === 0) {
+      errors.push({ path: `${path}/options`, message: 'must be a non-empty array', itemId })
+      return
+    }
+    if (isNonNegativeInteger(min) && min > group.options.length) {
+      errors.push({ path: `${path}/minSelections`, message: `exceeds the number of options (${group.options.length})`, itemId })
+    }
+
+    const optionIds = new Set<string>()
+    group.options.forEach((option, optionIndex) => {
+      const optionPath = `${path}/options/${optionIndex}`
+      if (!isObject(option)) {
+        errors.push({ path: optionPath, message: 'must be an object', itemId })
+        return
+      }
+      for (const field of ['id', 'name']) {
+        if (!isNonEmptyString(option[field])) {
+          errors.push({ path: `${optionPath}/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)`, itemId })
+        }
+      }
+      if (isNonEmptyString(option.id)) {
+        if (optionIds.has(option.id)) {
+          errors.push({ path: `${optionPath}/id`, message: `duplicate option id "${option.id}"`, itemId })
+        }
+        optionIds.add(option.id)
+      }
+      const delta = option.priceDelta
+      const message = typeof delta === 'number'
+        ? (Number.isFinite(delta) ? null : 'must be a finite number')
+        : isObject(delta)
+          ? priceError(delta, options, true)
+          : 'must be { amount, currency } (e.g. { "amount": 150, "currency": "USD" })'
+      if (message) {
+        errors.push({ path: `${optionPath}/priceDelta`, message, itemId })
+      }
+    })
+  })
+}
+
+/**
+ * Check an item's size/variant list (e.g. Small/Large, Glass/Bottle)
+ */
+function validateVariants(
+  variants: unknown,
+  base: string,
+  errors: ValidationIssue[],
+  warnings: ValidationIssue[],
+  itemId: string | undefined,
+  options: ValidateOptions
+): void {
+  if (!Array.isArray(variants)) {
+    errors.push({ path: base, message: 'must be an array', itemId })
+    return
+  }
+  if (variants.length === 1) {
+    warnings.push({ path: base, message: 'only one variant; use "price" instead', itemId })
+  }
+
+  const ids = new Set<string>()
+  const labels = new Set<string>()
+  variants.forEach((variant, index) => {
+    const path = `${base}/${index}`
+    if (!isObject(variant)) {
+      errors.push({ path, message: 'must be an object', itemId })
+      return
+    }
+
+    for (const field of ['id', 'label']) {
+      if (!isNonEmptyString(variant[field])) {
+        errors.push({ path: `${path}/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)`, itemId })
+      }
+    }
+    if (isNonEmptyString(variant.id)) {
+      if (ids.has(variant.id)) {
+        errors.push({ path: `${path}/id`, message: `duplicate variant id "${variant.id}"`, itemId })
+      }
+      ids.add(variant.id)
+    }
+    if (isNonEmptyString(variant.label)) {
+      const label = variant.label.trim().toLowerCase()
+      if (labels.has(label)) {
+        errors.push({ path: `${path}/label`, message: `duplicate variant label "${variant.label}"`, itemId })
+      }
+      labels.add(label)
+    }
+
+    if (variant.price === undefined || variant.price === '') {
+      errors.push({ path: `${path}/price`, message: 'variants must have a price', itemId })
+    } else {
+      const message = priceError(variant.price, options)
+      if (message) errors.push({ path: `${path}/price`, message, itemId })
+    }
+
+    if (variant.image !== undefined && variant.image !== '') {
+      if (typeof variant.image !== 'string') {
+        errors.push({ path: `${path}/image`, message: 'must be a string', itemId })
+      } else if (!IMAGE_FILENAME_PATTERN.test(variant.image)) {
+        errors.push({
+          path: `${path}/image`,
+          message: `invalid image filename "${variant.image}" (expected e.g. "mains__burger.jpg")`,
+          itemId
+        })
+      }
+    }
+  })
+}
+
+/**
+ * Check an item's dietary or allergen tag list
+ */
+function validateTagList(
+  value: unknown,
+  path: string,
+  allowed: TagDefinition[] | undefined,
+  errors: ValidationIssue[],
+  itemId: string | undefined
+): void {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array of tag ids', itemId })
+    return
+  }
+
+  const seen = new Set<string>()
+  value.forEach((tag, index) => {
+    if (typeof tag !== 'string' || !TAG_ID_PATTERN.test(tag)) {
+      errors.push({ path: `${path}/${index}`, message: 'must be a tag id (e.g. "gluten-free")', itemId })
+    } else if (seen.has(tag)) {
+      errors.push({ path: `${path}/${index}`, message: `duplicate tag "${tag}"`, itemId })
+    } else if (allowed && !allowed.some(definition => definition.id === tag)) {
+      errors.push({ path: `${path}/${index}`, message: `unknown tag "${tag}" (not in the brand's tag vocabulary)`, itemId })
+    }
+    if (typeof tag === 'string') seen.add(tag)
+  })
+}
+
+function validateItem(
+  item: unknown,
+  index: number,
+  errors: ValidationIssue[],
+  warnings: ValidationIssue[],
+  options: ValidateOptions
+): void {
+  const base = `/items/${index}`
+
+  if (!isObject(item)) {
+    errors.push({ path: base, message: 'must be an object' })
+    return
+  }
+
+  const itemId = typeof item.id === 'string' ? item.id : undefined
+
+  const required = options.reconcileIds ? ['name', 'category'] : ['id', 'name', 'category']
+  for (const field of required) {
+    if (!isNonEmptyString(item[field])) {
+      errors.push({ path: `${base}/${field}`, message: `missing or invalid "${field}" (must be a non-empty string)`, itemId })
+    }
+  }
+
+  if (item.price !== undefined) {
+    const message = priceError(item.price, options)
+    if (message) {
+      errors.push({ path: `${base}/price`, message, itemId })
+    }
+  }
+
+  if (item.description !== undefined && typeof item.description !== 'string') {
+    errors.push({ path: `${base}/description`, message: 'must be a string', itemId })
+  }
+
+  if (item.variants !== undefined) {
+    validateVariants(item.variants, `${base}/variants`, errors, warnings, itemId, options)
+  }
+
+  if (item.dietary !== undefined) {
+    validateTagList(item.dietary, `${base}/dietary`, options.tags?.dietary, errors, itemId)
+  }
+
+  if (item.allergens !== undefined) {
+    validateTagList(item.allergens, `${base}/allergens`, options.tags?.allergens, errors, itemId)
+  }
+
+  if (item.spiceLevel !== undefined) {
+    const max = options.tags?.maxSpiceLevel ?? DEFAULT_TAG_VOCABULARY.maxSpiceLevel
+    const level = item.spiceLevel
+    if (typeof level !== 'number' || !Number.isInteger(level) || level < 0 || level > max) {
+      errors.push({ path: `${base}/spiceLevel`, message: `must be an integer from 0 to ${max}`, itemId })
+    }
+  }
+
+  if (item.translations !== undefined) {
+    validateItemTranslations(item.translations, `${base}/translations`, errors, itemId)
+  }
+
+  if (item.soldOut !== undefined && typeof item.soldOut !== 'boolean') {
+    errors.push({ path: `${base}/soldOut`, message: 'must be a boolean', itemId })
+  }
+
+  if (item.available !== undefined && typeof item.available !== 'boolean') {
+    errors.push({ path: `${base}/available`, message: 'must be a boolean', itemId })
+  }
+
+  if (item.catalogId !== undefined || item.overrides !== undefined) {
+    validateCatalogLink(item, base, options.catalog, errors, itemId)
+  }
+
+  if (item.soldOutUntil !== undefined) {
+    if (typeof item.soldOutUntil !== 'string' || Number.isNaN(Date.parse(item.soldOutUntil))) {
+      errors.push({ path: `${base}/soldOutUntil`, message: 'must be an ISO timestamp', itemId })
+    } else if (item.soldOut !== true) {
+      errors.push({ path: `${base}/soldOutUntil`, message: 'only allowed when "soldOut" is true', itemId })
+    }
+  }
+
+  if (item.modifierGroups !== undefined) {
+    validateModifierGroups(item.modifierGroups, `${base}/modifierGroups`, errors, itemId, options)
+  }
+
+  for (const field of IMAGE_FIELDS) {
+    const value = item[field]
+    if (value === undefined || value === '') continue
+    if (typeof value !== 'string') {
+      errors.push({ path: `${base}/${field}`, message: 'must be a string', itemId })
+    } else if (!IMAGE_FILENAME_PATTERN.test(value)) {
+      errors.push({
+        path: `${base}/${field}`,
+        message: `invalid image filename "${value}" (expected e.g. "mains__burger.jpg")`,
+        itemId
+      })
+    }
+  }
+}
+
+/**
+ * Validate a menu document
+ */
+export function validateMenu(data: unknown, options: ValidateOptions = {}): ValidationResult {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'menu must be an object' })
+    return { valid: false, errors, warnings }
+  }
+
+  if (!Array.isArray(data.items)) {
+    errors.push({ path: '/items', message: 'missing "items" array' })
+    return { valid: false, errors, warnings }
+  }
+
+  let categoryOrder: string[] | null = null
+  if (data.meta !== undefined) {
+    if (!isObject(data.meta)) {
+      errors.push({ path: '/meta', message: 'must be an object' })
+    } else if (data.meta.categoryOrder !== undefined) {
+      const order = data.meta.categoryOrder
+      if (!Array.isArray(order) || order.some(c => typeof c !== 'string')) {
+        errors.push({ path: '/meta/categoryOrder', message: 'must be an array of strings' })
+      } else {
+        categoryOrder = order
+      }
+    }
+    if (isObject(data.meta) && data.meta.categoryTranslations !== undefined) {
+      validateCategoryTranslations(data.meta.categoryTranslations, '/meta/categoryTranslations', errors)
+    }
+  }
+
+  if (data.items.length === 0) {
+    warnings.push({ path: '/items', message: '"items" array is empty' })
+  }
+
+  const seenIds = new Map<string, number>()
+  const usedCategories = new Set<string>()
+
+  // Linked items are checked with their inherited catalog fields
+  const catalogById = new Map((options.catalog?.items || []).map(entry => [entry.id, entry]))
+  const items = data.items.map(item =>
+    isObject(item) && typeof item.catalogId === 'string'
+      ? resolveCatalogItem(item, catalogById.get(item.catalogId))
+      : item
+  )
+
+  items.forEach((item, index) => {
+    validateItem(item, index, errors, warnings, options)
+    if (!isObject(item)) return
+
+    if (options.reconcileIds && item.id !== undefined && typeof item.id !== 'string') {
+      errors.push({ path: `/items/${index}/id`, message: 'must be a string' })
+    }
+
+    if (typeof item.id === 'string' && item.id !== '') {
+      const first = seenIds.get(item.id)
+      if (first !== undefined) {
+        // Reconciliation gives duplicates fresh ids, so only warn there
+        ;(options.reconcileIds ? warnings : errors).push({
+          path: `/items/${index}/id`,
+          message: `duplicate id "${item.id}" (first used at /items/${first})`,
+          itemId: item.id
+        })
+      } else {
+        seenIds.set(item.id, index)
+      }
+    }
+
+    if (isNonEmptyString(item.category)) {
+      usedCategories.add(item.category)
+      if (categoryOrder && !categoryOrder.includes(item.category)) {
+        warnings.push({
+          path: `/items/${index}/category`,
+          message: `category "${item.category}" is not listed in meta.categoryOrder`,
+          itemId: typeof item.id === 'string' ? item.id : undefined
+        })
+      }
+    }
+  })
+
+  categoryOrder?.forEach((category, index) => {
+    if (!usedCategories.has(category)) {
+      warnings.push({ path: `/meta/categoryOrder/${index}`, message: `category "${category}" has no items` })
+    }
+  })
+
+  const legacyPrices = countLegacyPrices(items)
+  if (legacyPrices > 0) {
+    warnings.push({
+      path: '/items',
+      message: `${legacyPrices} price(s) use the legacy number/string format; run the price migration to store { amount, currency }`
+    })
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Validate a brand tag vocabulary document
+ */
+export function validateTagVocabulary(data: unknown): ValidationResult {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'tag vocabulary must be an object' })
+    return { valid: false, errors, warnings }
+  }
+
+  for (const list of ['dietary', 'allergens'] as const) {
+    const definitions = data[list]
+    if (!Array.isArray(definitions)) {
+      errors.push({ path: `/${list}`, message: `missing "${list}" array` })
+      continue
+    }
+
+    const ids = new Set<string>()
+    definitions.forEach((definition, index) => {
+      const path = `/${list}/${index}`
+      if (!isObject(definition)) {
+        errors.push({ path, message: 'must be an object' })
+        return
+      }
+      if (typeof definition.id !== 'string' || !TAG_ID_PATTERN.test(definition.id)) {
+        errors.push({ path: `${path}/id`, message: 'must be a tag id (e.g. "gluten-free")' })
+      } else if (ids.has(definition.id)) {
+        errors.push({ path: `${path}/id`, message: `duplicate tag id "${definition.id}"` })
+      } else {
+        ids.add(definition.id)
+      }
+      if (!isNonEmptyString(definition.label)) {
+        errors.push({ path: `${path}/label`, message: 'missing or invalid "label" (must be a non-empty string)' })
+      }
+    })
+  }
+
+  const max = data.maxSpiceLevel
+  if (typeof max !== 'number' || !Number.isInteger(max) || max < 0 || max > 10) {
+    errors.push({ path: '/maxSpiceLevel', message: 'must be an integer from 0 to 10' })
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Validate a brand catalog document ({ items: [...] })
+ * Catalog items are checked like menu items, without store-specific fields.
+ */
+export function validateCatalog(data: unknown, options: Pick<ValidateOptions, 'tags'> = {}): ValidationResult {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'catalog must be an object' })
+    return { valid: false, errors, warnings }
+  }
+
+  if (!Array.isArray(data.items)) {
+    errors.push({ path: '/items', message: 'missing "items" array' })
+    return { valid: false, errors, warnings }
+  }
+
+  const seenIds = new Map<string, number>()
+  data.items.forEach((item, index) => {
+    validateItem(item, index, errors, warnings, options)
+    validateCatalogItemShape(item, `/items/${index}`, errors)
+    if (!isObject(item) || typeof item.id !== 'string' || item.id === '') return
+
+    const first = seenIds.get(item.id)
+    if (first !== undefined) {
+      errors.push({
+        path: `/items/${index}/id`,
+        message: `duplicate id "${item.id}" (first used at /items/${first})`,
+        itemId: item.id
+      })
+    } else {
+      seenIds.set(item.id, index)
+    }
+  })
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Format an issue for display, e.g. "/items/3/price: must be a number or string"
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
@@ -0,0 +1,221 @@
+/**
+ * Prices
+ *
+ * Prices are stored as integer minor units plus an ISO 4217 currency code:
+ *   { "amount": 1250, "currency": "USD" } is $12.50, { "amount": 900, "currency": "JPY" } is ¥900
+ *
+ * The currency comes from the store config (StoreConfig.currency) and its
+ * locale (StoreConfig.locale) controls display formatting.
+ *
+ * Older menus hold legacy prices: numbers or strings in major units ("$12.50",
+ * 12.5; modifier priceDelta 1.5). They still validate, with a warning, and
+ * normalizeMenuPrices() converts them (see the API price migration).
+ */
+
+export interface Money {
+  amount: number // integer minor units (cents for USD); negative only for modifier deltas
+  currency: string // ISO 4217, e.g. "USD"
+}
+
+// Money, or a legacy number/string price awaiting migration
+export type PriceValue = Money | number | string
+
+// Used for stores without a currency/locale in their config
+export const DEFAULT_CURRENCY = 'USD'
+export const DEFAULT_MONEY_LOCALE = 'en-US'
+
+export const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+// Legacy price string: amount with up to two decimals, optional leading $ (e.g. "12", "$12.50")
+export const PRICE_PATTERN = /^\$?\d+(\.\d{1,2})?$/
+
+type PriceRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is PriceRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isMoney(value: unknown): value is Money {
+  return isRecord(value) && typeof value.amount === 'number' && typeof value.currency === 'string'
+}
+
+export function isValidCurrency(currency: string): boolean {
+  if (!CURRENCY_PATTERN.test(currency)) return false
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Number of minor-unit digits of a currency (USD 2, JPY 0, KWD 3)
+ */
+export function currencyDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2
+  } catch {
+    return 2
+  }
+}
+
+/**
+ * Amount of a price in major units ("$12.50", 12.5 or 1250 USD -> 12.5), null if unset or invalid
+ */
+export function parsePrice(price: unknown): number | null {
+  if (isMoney(price)) {
+    return Number.isInteger(price.amount) ? price.amount / 10 ** currencyDigits(price.currency) : null
+  }
+  if (typeof price === 'number') return Number.isFinite(price) && price >= 0 ? price : null
+  if (typeof price === 'string' && PRICE_PATTERN.test(price.trim())) {
+    return parseFloat(price.trim().replace(/^\$/, ''))
+  }
+  return null
+}
+
+/**
+ * Convert a price to Money; legacy numbers/strings are read as major units
+ * of `currency`. Returns null for unset ('') or unparseable values.
+ */
+export function toMoney(price: unknown, currency: string): Money | null {
+  if (isMoney(price)) return price
+  if (typeof price === 'number') {
+    return Number.isFinite(price) ? { amount: Math.round(price * 10 ** currencyDigits(currency)), currency } : null
+  }
+  if (typeof price === 'string' && PRICE_PATTERN.test(price.trim())) {
+    return toMoney(parseFloat(price.trim().replace(/^\$/, '')), currency)
+  }
+  return null
+}
+
+/**
+ * Parse what a person typed into a price field ("12.50", "$12", "12,50")
+ * Returns null for empty or unparseable input, or too many decimals.
+ */
+export function parseMoneyInput(input: string, currency: string, allowNegative = false): Money | null {
+  const cleaned = input.replace(/[^\d.,-]/g, '')
+  const match = cleaned.match(/^(-?)(\d+)(?:[.,](\d+))?$/)
+  if (!match) return null
+
+  const [, sign, whole, fraction = ''] = match
+  const digits = currencyDigits(currency)
+  if (fraction.length > digits || (sign && !allowNegative)) return null
+
+  const amount = Number(whole) * 10 ** digits + Number(fraction.padEnd(digits, '0') || 0)
+  return { amount: sign ? -amount : amount, currency }
+}
+
+/**
+ * Major-unit string for editing (1250 USD -> "12.50"), '' when unset
+ */
+export function moneyInputValue(money: Money | undefined): string {
+  if (!money) return ''
+  const digits = currencyDigits(money.currency)
+  return (money.amount / 10 ** digits).toFixed(digits)
+}
+
+/**
+ * Display a price in a locale ("$12.50", "12,50 €"); legacy values are shown in `fallbackCurrency`
+ */
+export function formatMoney(
+  price: PriceValue | undefined,
+  locale: string = DEFAULT_MONEY_LOCALE,
+  fallbackCurrency: string = DEFAULT_CURRENCY
+): string {
+  const money = toMoney(price, fallbackCurrency)
+  if (!money) return ''
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency })
+    .format(money.amount / 10 ** currencyDigits(money.currency))
+}
+
+/**
+ * Apply fn to every price of an item: price, variant prices and modifier option deltas
+ */
+function mapItemPrices(item: PriceRecord, fn: (value: unknown) => unknown): PriceRecord {
+  const result: PriceRecord = { ...item }
+  if (item.price !== undefined) result.price = fn(item.price)
+  if (Array.isArray(item.variants)) {
+    result.variants = item.variants.map(variant =>
+      isRecord(variant) && variant.price !== undefined ? { ...variant, price: fn(variant.price) } : variant
+    )
+  }
+  if (Array.isArray(item.modifierGroups)) {
+    result.modifierGroups = item.modifierGroups.map(group => {
+      if (!isRecord(group) || !Array.isArray(group.options)) return group
+      return {
+        ...group,
+        options: group.options.map(option =>
+          isRecord(option) && option.priceDelta !== undefined ? { ...option, priceDelta: fn(option.priceDelta) } : option
+        )
+      }
+    })
+  }
+  return result
+}
+
+function isLegacyPrice(value: unknown): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value !== '')
+}
+
+/**
+ * Number of legacy (number/string) prices in a list of items
+ */
+export function countLegacyPrices(items: unknown[]): number {
+  let count = 0
+  for (const item of items) {
+    if (!isRecord(item)) continue
+    mapItemPrices(item, value => {
+      if (isLegacyPrice(value)) count++
+      return value
+    })
+  }
+  return count
+}
+
+/**
+ * Number of Money prices in `currency` in a list of items
+ */
+export function countMoneyPrices(items: unknown[], currency: string): number {
+  let count = 0
+  for (const item of items) {
+    if (!isRecord(item)) continue
+    mapItemPrices(item, value => {
+      if (isMoney(value) && value.currency === currency) count++
+      return value
+    })
+  }
+  return count
+}
+
+/**
+ * Convert a menu's legacy prices to Money in `currency`
+ * Empty prices ('') are dropped; values that cannot be parsed are left for validation to report.
+ */
+export function normalizeMenuPrices<M extends { items: unknown[] }>(
+  menu: M,
+  currency: string
+): { menu: M; converted: number } {
+  let converted = 0
+  const items = menu.items.map(item => {
+    if (!isRecord(item)) return item
+    const normalized = mapItemPrices(item, value => {
+      if (!isLegacyPrice(value)) return value
+      const money = toMoney(value, currency)
+      if (!money) return value
+      converted++
+      return money
+    })
+    if (normalized.price === '') delete normalized.price
+    return normalized
+  })
+  return { menu: { ...menu, items }, converted }
+}
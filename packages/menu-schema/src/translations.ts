@@ -0,0 +1,152 @@
+/**
+ * Menu translations
+ *
+ * Item name/description and category names are written in the brand's
+ * default locale (the first entry of the registry's `locales`). Other
+ * locales are carried alongside:
+ * - item.translations: { es: { name, description } }
+ * - meta.categoryTranslations: { Mains: { es: "Platos fuertes" } }
+ *
+ * localizeMenu() flattens a menu to a single locale, falling back to the
+ * default-locale text wherever a translation is missing.
+ */
+
+import type { ValidationIssue } from './index'
+
+export interface ItemTranslation {
+  name?: string
+  description?: string
+}
+
+export type ItemTranslations = Record<string, ItemTranslation>
+
+// Category name -> locale -> translated name
+export type CategoryTranslations = Record<string, Record<string, string>>
+
+export type TranslatableField = 'name' | 'description'
+
+// Language with optional region, e.g. "es", "es-MX"
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/
+
+// Locale of menus whose brand registry lists no locales
+export const DEFAULT_LOCALE = 'en'
+
+interface TranslatableItem {
+  name: string
+  description?: string
+  category: string
+  translations?: ItemTranslations
+}
+
+interface TranslatableMenu {
+  meta?: { categoryOrder?: string[]; categoryTranslations?: CategoryTranslations; locale?: string }
+  items: TranslatableItem[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function present(value: string | undefined): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+/**
+ * Fields of an item with default-locale text but no translation for locale
+ */
+export function missingTranslations(item: TranslatableItem, locale: string): TranslatableField[] {
+  const translation = item.translations?.[locale]
+  const missing: TranslatableField[] = []
+  if (present(item.name) && !present(translation?.name)) missing.push('name')
+  if (present(item.description) && !present(translation?.description)) missing.push('description')
+  return missing
+}
+
+/**
+ * Flatten a menu to one locale; pass the default locale to just strip translations
+ */
+export function localizeMenu<M extends TranslatableMenu>(menu: M, locale: string): M {
+  const categoryTranslations = menu.meta?.categoryTranslations || {}
+  const category = (name: string) => categoryTranslations[name]?.[locale] || name
+
+  const items = menu.items.map(item => {
+    const { translations, ...rest } = item
+    const translation = translations?.[locale]
+    return {
+      ...rest,
+      name: present(translation?.name) ? translation.name : item.name,
+      ...(present(translation?.description) ? { description: translation.description } : {}),
+      category: category(item.category)
+    }
+  })
+
+  const { categoryTranslations: _translations, ...meta } = menu.meta || {}
+  return {
+    ...menu,
+    meta: {
+      ...meta,
+      ...(meta.categoryOrder ? { categoryOrder: meta.categoryOrder.map(category) } : {}),
+      locale
+    },
+    items
+  } as M
+}
+
+/**
+ * Check an item's translations object
+ */
+export function validateItemTranslations(
+  translations: unknown,
+  path: string,
+  errors: ValidationIssue[],
+  itemId: string | undefined
+): void {
+  if (!isObject(translations)) {
+    errors.push({ path, message: 'must be an object keyed by locale (e.g. { "es": { "name": "..." } })', itemId })
+    return
+  }
+
+  for (const [locale, translation] of Object.entries(translations)) {
+    const base = `${path}/${locale}`
+    if (!LOCALE_PATTERN.test(locale)) {
+      errors.push({ path: base, message: `invalid locale "${locale}" (expected e.g. "es" or "es-MX")`, itemId })
+      continue
+    }
+    if (!isObject(translation)) {
+      errors.push({ path: base, message: 'must be an object', itemId })
+      continue
+    }
+    for (const [field, value] of Object.entries(translation)) {
+      if (field !== 'name' && field !== 'description') {
+        errors.push({ path: `${base}/${field}`, message: 'only "name" and "description" can be translated', itemId })
+      } else if (typeof value !== 'string') {
+        errors.push({ path: `${base}/${field}`, message: 'must be a string', itemId })
+      }
+    }
+  }
+}
+
+/**
+ * Check meta.categoryTranslations
+ */
+export function validateCategoryTranslations(translations: unknown, path: string, errors: ValidationIssue[]): void {
+  if (!isObject(translations)) {
+    errors.push({ path, message: 'must be an object keyed by category name' })
+    return
+  }
+
+  for (const [category, byLocale] of Object.entries(translations)) {
+    const base = `${path}/${category.replace(/~/g, '~0').replace(/\//g, '~1')}`
+    if (!isObject(byLocale)) {
+      errors.push({ path: base, message: 'must be an object keyed by locale' })
+      continue
+    }
+    for (const [locale, name] of Object.entries(byLocale)) {
+      if (!LOCALE_PATTERN.test(locale)) {
+        errors.push({ path: `${base}/${locale}`, message: `invalid locale "${locale}" (expected e.g. "es" or "es-MX")` })
+      } else if (typeof name !== 'string') {
+        errors.push({ path: `${base}/${locale}`, message: 'must be a string' })
+      }
+    }
+  }
+}